@@ -0,0 +1,55 @@
+export type BackoffStrategy = 'fixed' | 'exponential' | 'decorrelated';
+
+export interface BackoffOptions {
+  strategy?: BackoffStrategy;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+  random?: () => number;
+}
+
+export interface Clock {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+/**
+ * Compute the delay before retry number `retryIndex` (1 for the first retry).
+ * `previousDelayMs` is only used by the decorrelated jitter strategy.
+ */
+export function computeBackoffDelay(
+  options: BackoffOptions,
+  retryIndex: number,
+  previousDelayMs: number,
+): number {
+  const {
+    strategy = 'exponential',
+    initialDelayMs = 100,
+    maxDelayMs = Infinity,
+    factor = 2,
+    random = Math.random,
+  } = options;
+
+  let delay: number;
+  switch (strategy) {
+    case 'fixed':
+      delay = initialDelayMs;
+      break;
+    case 'exponential':
+      delay = initialDelayMs * factor ** (retryIndex - 1);
+      break;
+    case 'decorrelated': {
+      // "Decorrelated jitter": uniform between the base and 3x the last delay
+      const upper = Math.max(initialDelayMs, previousDelayMs * 3);
+      delay = initialDelayMs + random() * (upper - initialDelayMs);
+      break;
+    }
+  }
+
+  return Math.max(0, Math.round(Math.min(delay, maxDelayMs)));
+}
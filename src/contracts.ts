@@ -0,0 +1,242 @@
+import { z } from 'zod';
+
+/** The schemas a guarded node was declared with. */
+export interface GuardContract {
+  nodeName: string;
+  input?: z.ZodType;
+  output?: z.ZodType;
+}
+
+export interface SchemaMismatch {
+  field: string;
+  reason: string;
+}
+
+/** The parts of a JSON Schema, as zod renders it, that are read here and in `feedback.ts`. */
+export type JsonSchema = {
+  $schema?: string;
+  type?: string | string[];
+  anyOf?: JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  description?: string;
+  default?: unknown;
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minItems?: number;
+  maxItems?: number;
+};
+
+/** A contract's schemas rendered as JSON Schema. */
+export interface ContractJsonSchema {
+  nodeName: string;
+  input?: Record<string, unknown>;
+  output?: Record<string, unknown>;
+}
+
+/**
+ * Render a contract as JSON Schema. Both sides describe what the node
+ * accepts before parsing, which is what a prompt should ask for.
+ */
+export function contractJsonSchema(contract: GuardContract): ContractJsonSchema {
+  return {
+    nodeName: contract.nodeName,
+    input: contract.input && toJsonSchema(contract.input),
+    output: contract.output && toJsonSchema(contract.output),
+  };
+}
+
+/**
+ * Describe what `schema` accepts as a compact, prompt-ready instruction
+ * block: one line per field with its type, constraints and description.
+ */
+export function promptInstructions(schema: z.ZodType): string {
+  const root = toJsonSchema(schema) as JsonSchema;
+  if (!root.properties) {
+    return `Respond with JSON: ${describeType(root)}${describeDetails(root)}`;
+  }
+  const lines = ['Respond with a JSON object with these fields:'];
+  describeFields(root, '', lines);
+  return lines.join('\n');
+}
+
+/**
+ * Check whether every value `producer` can output is accepted by
+ * `consumer`'s input. The check is structural and lenient: anything that
+ * cannot be represented as JSON Schema (transforms, refinements) is assumed
+ * to be compatible.
+ */
+export function compareSchemas(producer: z.ZodType, consumer: z.ZodType): SchemaMismatch[] {
+  const produced = z.toJSONSchema(producer, { io: 'output', unrepresentable: 'any' });
+  const consumed = z.toJSONSchema(consumer, { io: 'input', unrepresentable: 'any' });
+  const mismatches: SchemaMismatch[] = [];
+  compare(produced as JsonSchema, consumed as JsonSchema, '', mismatches);
+  return mismatches;
+}
+
+function compare(
+  producer: JsonSchema,
+  consumer: JsonSchema,
+  path: string,
+  mismatches: SchemaMismatch[],
+): void {
+  const field = path || 'root';
+  const consumerTypes = typesOf(consumer);
+  const producerTypes = typesOf(producer);
+  if (!consumerTypes || !producerTypes) return;
+
+  const unaccepted = producerTypes.filter(
+    (type) =>
+      !consumerTypes.includes(type) &&
+      !(type === 'integer' && consumerTypes.includes('number')),
+  );
+  if (unaccepted.length > 0) {
+    mismatches.push({
+      field,
+      reason: `expected ${consumerTypes.join(' | ')}, got ${producerTypes.join(' | ')}`,
+    });
+    return;
+  }
+
+  const allowed = valuesOf(consumer);
+  if (allowed) {
+    const produced = valuesOf(producer);
+    const extra = produced?.filter((value) => !allowed.includes(value));
+    if (!produced) {
+      mismatches.push({
+        field,
+        reason: `expected one of ${allowed.map(String).join(', ')}, got any ${producerTypes.join(' | ')}`,
+      });
+    } else if (extra && extra.length > 0) {
+      mismatches.push({
+        field,
+        reason: `expected one of ${allowed.map(String).join(', ')}, got ${extra.map(String).join(', ')}`,
+      });
+    }
+  }
+
+  if (consumer.properties && producer.properties) {
+    const producerRequired = producer.required ?? [];
+    for (const key of consumer.required ?? []) {
+      const keyPath = path ? `${path}.${key}` : key;
+      if (!(key in producer.properties)) {
+        mismatches.push({ field: keyPath, reason: 'required but not produced' });
+      } else if (!producerRequired.includes(key)) {
+        mismatches.push({ field: keyPath, reason: 'required but optional in output' });
+      }
+    }
+    // A strict consumer rejects keys it does not declare
+    if (consumer.additionalProperties === false) {
+      for (const key of Object.keys(producer.properties)) {
+        if (!(key in consumer.properties)) {
+          mismatches.push({
+            field: path ? `${path}.${key}` : key,
+            reason: 'produced but not accepted by strict input',
+          });
+        }
+      }
+    }
+    for (const [key, schema] of Object.entries(consumer.properties)) {
+      const produced = producer.properties[key];
+      if (produced) {
+        compare(produced, schema, path ? `${path}.${key}` : key, mismatches);
+      }
+    }
+  }
+
+  if (consumer.items && producer.items) {
+    compare(producer.items, consumer.items, `${field}[]`, mismatches);
+  }
+}
+
+function toJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema: _, ...rest } = z.toJSONSchema(schema, {
+    io: 'input',
+    unrepresentable: 'any',
+  }) as Record<string, unknown>;
+  return rest;
+}
+
+function describeFields(schema: JsonSchema, indent: string, lines: string[]): void {
+  const required = schema.required ?? [];
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const optional = required.includes(key) ? '' : ', optional';
+    lines.push(`${indent}- ${key} (${describeType(property)}${optional})${describeDetails(property)}`);
+    const nested = property.properties ? property : property.items?.properties ? property.items : null;
+    if (nested) {
+      describeFields(nested, `${indent}  `, lines);
+    }
+  }
+}
+
+function describeType(schema: JsonSchema): string {
+  if (schema.anyOf) {
+    return schema.anyOf.map(describeType).join(' or ');
+  }
+  if ('const' in schema) {
+    return `exactly ${JSON.stringify(schema.const)}`;
+  }
+  if (schema.enum) {
+    return `one of ${schema.enum.map((value) => JSON.stringify(value)).join(', ')}`;
+  }
+  if (schema.type === 'array') {
+    const items = schema.items;
+    if (!items) return 'array';
+    return items.properties ? 'array of objects' : `array of ${describeType(items)}`;
+  }
+  const types = Array.isArray(schema.type) ? schema.type.join(' or ') : (schema.type ?? 'any');
+  return schema.format ? `${types}, ${schema.format}` : types;
+}
+
+function describeDetails(schema: JsonSchema): string {
+  const constraints: string[] = [];
+  if (schema.minLength !== undefined) constraints.push(`at least ${schema.minLength} characters`);
+  if (schema.maxLength !== undefined) constraints.push(`at most ${schema.maxLength} characters`);
+  if (schema.minimum !== undefined && schema.minimum > Number.MIN_SAFE_INTEGER) {
+    constraints.push(`>= ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined && schema.maximum < Number.MAX_SAFE_INTEGER) {
+    constraints.push(`<= ${schema.maximum}`);
+  }
+  if (schema.exclusiveMinimum !== undefined) constraints.push(`> ${schema.exclusiveMinimum}`);
+  if (schema.exclusiveMaximum !== undefined) constraints.push(`< ${schema.exclusiveMaximum}`);
+  if (schema.minItems !== undefined) constraints.push(`at least ${schema.minItems} items`);
+  if (schema.maxItems !== undefined) constraints.push(`at most ${schema.maxItems} items`);
+  if (schema.pattern !== undefined && !schema.format) constraints.push(`matching /${schema.pattern}/`);
+  if (schema.default !== undefined) constraints.push(`default ${JSON.stringify(schema.default)}`);
+
+  const text = [constraints.join(', '), schema.description].filter(Boolean).join('. ');
+  return text ? `: ${text}` : '';
+}
+
+function typesOf(schema: JsonSchema): string[] | null {
+  if (schema.anyOf) {
+    const types = schema.anyOf.map(typesOf);
+    if (types.some((entry) => entry === null)) return null;
+    return [...new Set(types.flat() as string[])];
+  }
+  if (schema.type) {
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+  }
+  const values = valuesOf(schema);
+  if (values) {
+    return [...new Set(values.map((value) => (value === null ? 'null' : typeof value)))];
+  }
+  return null;
+}
+
+function valuesOf(schema: JsonSchema): unknown[] | null {
+  if (schema.enum) return schema.enum;
+  if ('const' in schema) return [schema.const];
+  return null;
+}
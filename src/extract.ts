@@ -0,0 +1,96 @@
+export interface JsonCandidate {
+  text: string;
+  /** Character offset of `text` within the searched string. */
+  offset: number;
+}
+
+export interface FindJsonOptions {
+  /**
+   * Only consider fenced code blocks with this language tag (e.g. `'json'`).
+   * Without it, fenced blocks are preferred when present and bare
+   * objects/arrays in the prose are used otherwise.
+   */
+  fenceLanguage?: string;
+  /**
+   * Skip fenced code blocks and only search the prose around them, e.g. when
+   * none of the blocks held JSON.
+   */
+  outsideFences?: boolean;
+}
+
+const FENCE_PATTERN = /```([\w+-]*)[^\n]*\n([\s\S]*?)```/g;
+
+/** Find JSON-looking regions of free text, in order of appearance. */
+export function findJsonCandidates(
+  text: string,
+  options: FindJsonOptions = {},
+): JsonCandidate[] {
+  if (options.outsideFences) {
+    // Blank the blocks out so offsets still point into `text`
+    return findBalanced(text.replace(FENCE_PATTERN, (block) => ' '.repeat(block.length)));
+  }
+
+  const fenced: (JsonCandidate & { language: string })[] = [];
+  for (const match of text.matchAll(FENCE_PATTERN)) {
+    const body = match[2];
+    const bodyStart = match.index! + match[0].length - body.length - 3;
+    const leading = body.length - body.trimStart().length;
+    fenced.push({
+      language: match[1].toLowerCase(),
+      text: body.trim(),
+      offset: bodyStart + leading,
+    });
+  }
+
+  if (options.fenceLanguage !== undefined) {
+    const language = options.fenceLanguage.toLowerCase();
+    return fenced
+      .filter((block) => block.language === language)
+      .map(({ text: body, offset }) => ({ text: body, offset }));
+  }
+
+  if (fenced.length > 0) {
+    return fenced.map(({ text: body, offset }) => ({ text: body, offset }));
+  }
+
+  return findBalanced(text);
+}
+
+function findBalanced(text: string): JsonCandidate[] {
+  const candidates: JsonCandidate[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '{' || text[i] === '[') {
+      const end = findBalancedEnd(text, i);
+      if (end !== -1) {
+        candidates.push({ text: text.slice(i, end + 1), offset: i });
+        i = end + 1;
+        continue;
+      }
+    }
+    i++;
+  }
+  return candidates;
+}
+
+/** Index of the bracket closing the one at `start`, or -1 if unbalanced. */
+function findBalancedEnd(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') {
+      if (stack.pop() !== ch) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import type { AttemptRecord, Diagnostic } from './types.js';
+import type { JsonSchema } from './contracts.js';
+
+export interface FeedbackContext {
+  nodeName: string;
+  /** The failure to give feedback on. */
+  diagnostic: Diagnostic;
+  /** Every attempt so far, including the one that produced `diagnostic`. */
+  history: AttemptRecord[];
+  /** The guard's `output` schema, if any. */
+  schema?: z.ZodType;
+}
+
+/** Renders the text `retry.feedback()` returns. */
+export type FeedbackFormatter = (context: FeedbackContext) => string;
+
+export type FeedbackPreset = 'default' | 'terse' | 'verbose' | 'json' | 'cumulative';
+
+/** The original `[Retry] Previous attempt failed` block. */
+export function formatFeedback(diagnostic: Diagnostic): string {
+  const lines = [`[Retry] Previous attempt failed (${diagnostic.type}):`];
+  lines.push(`  Message: ${diagnostic.message}`);
+  if (diagnostic.issues && diagnostic.issues.length > 1) {
+    lines.push(`  Issues (${diagnostic.issues.length}):`);
+    for (const issue of diagnostic.issues) {
+      const received = issue.received !== undefined ? ` (received ${issue.received})` : '';
+      lines.push(`    - ${issue.field}: ${issue.expected}${received}`);
+      lines.push(`      Suggestion: ${issue.suggestion}`);
+    }
+  } else {
+    if (diagnostic.field) lines.push(`  Field: ${diagnostic.field}`);
+    if (diagnostic.suggestion) lines.push(`  Suggestion: ${diagnostic.suggestion}`);
+  }
+  if (diagnostic.rawOutput) {
+    lines.push(`  Raw output: ${diagnostic.rawOutput.slice(0, 200)}`);
+  }
+  return lines.join('\n');
+}
+
+/** One line per issue, no raw output. */
+function terse({ diagnostic }: FeedbackContext): string {
+  const problems = diagnostic.issues?.length
+    ? diagnostic.issues.map((issue) => `${issue.field}: ${issue.expected}`)
+    : [diagnostic.field ? `${diagnostic.field}: ${diagnostic.message}` : diagnostic.message];
+  return `Previous attempt failed. Fix: ${problems.join('; ')}`;
+}
+
+/** The default block plus the JSON Schema of each failing field and the full raw output. */
+function verbose(context: FeedbackContext): string {
+  const { diagnostic, schema } = context;
+  const lines = [formatFeedback({ ...diagnostic, rawOutput: undefined })];
+  if (schema) {
+    for (const field of failingFields(diagnostic)) {
+      const excerpt = schemaExcerpt(schema, field);
+      if (excerpt) {
+        lines.push(`  Schema for ${field}: ${JSON.stringify(excerpt)}`);
+      }
+    }
+  }
+  if (diagnostic.rawOutput) {
+    lines.push(`  Raw output: ${diagnostic.rawOutput}`);
+  }
+  return lines.join('\n');
+}
+
+function json({ diagnostic, schema }: FeedbackContext): string {
+  const issues = diagnostic.issues ?? [
+    {
+      field: diagnostic.field ?? 'root',
+      expected: diagnostic.expected ?? diagnostic.message,
+      received: diagnostic.received,
+      suggestion: diagnostic.suggestion,
+    },
+  ];
+  return JSON.stringify(
+    {
+      error: diagnostic.type,
+      message: diagnostic.message,
+      issues: issues.map((issue) => ({
+        field: issue.field,
+        expected: issue.expected,
+        received: issue.received,
+        suggestion: issue.suggestion,
+        schema: schema ? schemaExcerpt(schema, issue.field) : undefined,
+      })),
+      rawOutput: diagnostic.rawOutput,
+    },
+    null,
+    2,
+  );
+}
+
+/** Every failed attempt so far, oldest first, so the model can see repeated mistakes. */
+function cumulative({ history }: FeedbackContext): string {
+  const failed = history.filter((record) => record.diagnostic);
+  const lines = [`[Retry] ${failed.length} previous attempt(s) failed:`];
+  for (const record of failed) {
+    const diagnostic = record.diagnostic!;
+    const problems = diagnostic.issues?.length
+      ? diagnostic.issues.map((issue) => `${issue.field}: ${issue.expected}`).join('; ')
+      : diagnostic.message;
+    lines.push(`  Attempt ${record.attempt} (${diagnostic.type}): ${problems}`);
+  }
+  const last = failed[failed.length - 1]?.diagnostic;
+  if (last?.suggestion) lines.push(`  Suggestion: ${last.suggestion}`);
+  return lines.join('\n');
+}
+
+export const feedbackPresets: Record<FeedbackPreset, FeedbackFormatter> = {
+  default: ({ diagnostic }) => formatFeedback(diagnostic),
+  terse,
+  verbose,
+  json,
+  cumulative,
+};
+
+export function resolveFeedbackFormatter(
+  format: FeedbackPreset | FeedbackFormatter | undefined,
+): FeedbackFormatter {
+  if (typeof format === 'function') return format;
+  return feedbackPresets[format ?? 'default'];
+}
+
+/**
+ * The JSON Schema of the field at `path` (as in `DiagnosticIssue.field`)
+ * within `schema`, or undefined when it cannot be found.
+ */
+export function schemaExcerpt(schema: z.ZodType, path: string): unknown {
+  let current = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as JsonSchema;
+  delete current.$schema;
+  if (path === 'root') return current;
+
+  for (const key of path.split('.')) {
+    const next = current.properties?.[key] ?? (/^\d+$/.test(key) ? current.items : undefined);
+    if (!next) return undefined;
+    current = next;
+  }
+  return current;
+}
+
+function failingFields(diagnostic: Diagnostic): string[] {
+  if (diagnostic.issues?.length) {
+    return [...new Set(diagnostic.issues.map((issue) => issue.field))];
+  }
+  return diagnostic.field ? [diagnostic.field] : [];
+}
@@ -0,0 +1,188 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { currentRetryState, type RetryState } from './retry.js';
+import { ParseError } from './utils.js';
+import { AttemptTimeoutError } from './guard.js';
+import type { GuardHooks } from './hooks.js';
+import type { AttemptRecord, Diagnostic } from './types.js';
+import type { StructuredFormat } from './formats.js';
+import type { JsonRepair } from './repair.js';
+
+export const FIXTURE_VERSION = 1;
+
+/** What one attempt of a recorded call returned or threw, and how it was judged. */
+export interface FixtureAttempt {
+  attempt: number;
+  output?: unknown;
+  /** What the attempt threw; a timed-out attempt records the timeout here. */
+  error?: {
+    name: string;
+    message: string;
+    rawOutput?: string;
+    format?: StructuredFormat;
+    repairs?: JsonRepair[];
+    /** The error's own enumerable properties, e.g. an HTTP `status`. */
+    properties?: Record<string, unknown>;
+  };
+  diagnostic: Diagnostic | null;
+}
+
+/** Every attempt of one guarded call. */
+export interface Fixture {
+  nodeName: string;
+  attempts: FixtureAttempt[];
+}
+
+export interface FixtureFile {
+  version: number;
+  fixtures: Fixture[];
+}
+
+/**
+ * Records live guarded calls as fixtures. Wrap the implementation with
+ * `wrap()` and pass `hooks` to the same guard:
+ *
+ *   guard({ output, maxAttempts: 3, hooks: recorder.hooks })(recorder.wrap(fn))
+ */
+export class FixtureRecorder {
+  readonly fixtures: Fixture[] = [];
+  private readonly attempts = new WeakMap<RetryState, { fixture: Fixture; entry: FixtureAttempt }>();
+  private readonly calls = new WeakMap<AttemptRecord, Fixture>();
+
+  readonly hooks: GuardHooks = {
+    onAttemptStart: ({ nodeName, state }) => {
+      // Later attempts find their call through the first attempt's record
+      let fixture = state.history.length > 0 ? this.calls.get(state.history[0]) : undefined;
+      if (!fixture) {
+        fixture = { nodeName, attempts: [] };
+        this.fixtures.push(fixture);
+      }
+      const entry: FixtureAttempt = { attempt: state.attempt, diagnostic: null };
+      fixture.attempts.push(entry);
+      this.attempts.set(state, { fixture, entry });
+    },
+    onAttemptEnd: ({ state, record }) => {
+      const current = this.attempts.get(state);
+      if (!current) return;
+      current.entry.diagnostic = record.diagnostic;
+      if (record.diagnostic?.type === 'timeout') {
+        // The guard aborts the attempt with the timeout error
+        delete current.entry.output;
+        current.entry.error = serializeError(
+          state.signal.reason ?? new Error(record.diagnostic.message),
+        );
+      }
+      this.calls.set(record, current.fixture);
+    },
+  };
+
+  wrap<TArgs extends unknown[], TReturn>(
+    fn: (...args: TArgs) => TReturn,
+  ): (...args: TArgs) => TReturn {
+    const recorder = this;
+    return function (this: unknown, ...args: TArgs): TReturn {
+      const state = currentRetryState();
+      const entry = state && recorder.attempts.get(state)?.entry;
+      if (!entry) return fn.apply(this, args);
+
+      let result: TReturn;
+      try {
+        result = fn.apply(this, args);
+      } catch (error) {
+        entry.error = serializeError(error);
+        throw error;
+      }
+      if (result instanceof Promise) {
+        // Once the attempt has timed out, a late result is not what the guard saw
+        const timedOut = () => entry.diagnostic?.type === 'timeout';
+        return result.then(
+          (output) => {
+            if (!timedOut()) entry.output = output;
+            return output;
+          },
+          (error) => {
+            if (!timedOut()) entry.error = serializeError(error);
+            throw error;
+          },
+        ) as TReturn;
+      }
+      entry.output = result;
+      return result;
+    };
+  }
+
+  toJSON(): FixtureFile {
+    return { version: FIXTURE_VERSION, fixtures: this.fixtures };
+  }
+
+  async save(path: string): Promise<void> {
+    await writeFile(path, JSON.stringify(this.toJSON(), null, 2) + '\n');
+  }
+}
+
+export async function loadFixtures(path: string): Promise<Fixture[]> {
+  const file = JSON.parse(await readFile(path, 'utf8')) as FixtureFile;
+  if (file.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version ${file.version} in ${path}`);
+  }
+  return file.fixtures;
+}
+
+/**
+ * An implementation that returns (or throws) what each attempt of `fixture`
+ * did, by `retry.attempt`. Guard it with the same options to replay the call
+ * offline.
+ */
+export function replayFixture(fixture: Fixture): (...args: unknown[]) => Promise<unknown> {
+  return async () => {
+    const attempt = currentRetryState()?.attempt ?? 1;
+    const entry = fixture.attempts.find((recorded) => recorded.attempt === attempt);
+    if (!entry) {
+      throw new Error(`Fixture for '${fixture.nodeName}' has no attempt ${attempt}`);
+    }
+    if (entry.error) {
+      throw deserializeError(entry.error);
+    }
+    return entry.output;
+  };
+}
+
+function serializeError(error: unknown): NonNullable<FixtureAttempt['error']> {
+  if (error instanceof ParseError) {
+    return {
+      name: error.name,
+      message: error.message,
+      rawOutput: error.rawOutput,
+      format: error.format,
+      repairs: error.repairs.length > 0 ? error.repairs : undefined,
+    };
+  }
+  if (error instanceof Error) {
+    const properties = Object.fromEntries(
+      Object.entries(error).filter(([key]) => key !== 'name' && key !== 'message'),
+    );
+    return Object.keys(properties).length > 0
+      ? { name: error.name, message: error.message, properties }
+      : { name: error.name, message: error.message };
+  }
+  return { name: typeof error, message: String(error) };
+}
+
+function deserializeError(error: NonNullable<FixtureAttempt['error']>): Error {
+  if (error.name === 'ParseError') {
+    return new ParseError(error.message, error.rawOutput, {
+      format: error.format,
+      repairs: error.repairs,
+    });
+  }
+  if (error.name === 'AttemptTimeoutError') {
+    const { timeoutMs, deadline, deadlineMs } = error.properties as {
+      timeoutMs: number;
+      deadline: boolean;
+      deadlineMs: number;
+    };
+    return new AttemptTimeoutError({ ms: timeoutMs, deadline, deadlineMs });
+  }
+  const restored = Object.assign(new Error(error.message), error.properties);
+  restored.name = error.name;
+  return restored;
+}
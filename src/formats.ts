@@ -0,0 +1,219 @@
+import { parse as parseYamlDocument } from 'yaml';
+import { ParseError, parseJson, type ParseJsonOptions } from './utils.js';
+
+export type StructuredFormat = 'json' | 'yaml' | 'tagged' | 'keyValue';
+
+export interface ParseTaggedOptions extends ParseJsonOptions {
+  /**
+   * How to parse the tag's content. Defaults to returning the trimmed text.
+   * The JSON options apply with `'json'`.
+   */
+  format?: 'text' | 'json' | 'yaml';
+}
+
+export interface ParseStructuredOptions extends ParseJsonOptions {
+  /** Format to parse as. Defaults to `'auto'`, which detects it from the text. */
+  format?: StructuredFormat | 'auto';
+  /**
+   * For `'tagged'`, the tag whose content is returned: parsed as JSON or
+   * YAML when it looks like either, otherwise as the trimmed text.
+   */
+  tag?: string;
+}
+
+const TAG_PATTERN = /<([A-Za-z][\w-]*)(?:\s[^>]*)?>([\s\S]*?)<\/\1\s*>/g;
+
+/** Parse a YAML mapping or sequence. A bare scalar, such as prose, is a `ParseError`. */
+export function parseYaml<T = unknown>(input: unknown): T {
+  const text = stripFence(requireString(input, 'yaml'));
+  let value: unknown;
+  try {
+    value = parseYamlDocument(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid YAML';
+    throw new ParseError(message, input as string, { format: 'yaml' });
+  }
+  if (value === null || typeof value !== 'object') {
+    throw new ParseError('Expected a YAML mapping or sequence, got a scalar', input as string, {
+      format: 'yaml',
+    });
+  }
+  return value as T;
+}
+
+/**
+ * Without `tag`, return the trimmed content of every top-level tag. With
+ * `tag`, return the content of its first occurrence.
+ */
+export function parseTagged(input: unknown): Record<string, string>;
+export function parseTagged<T = string>(
+  input: unknown,
+  tag: string,
+  options?: ParseTaggedOptions,
+): T;
+export function parseTagged(
+  input: unknown,
+  tag?: string,
+  options: ParseTaggedOptions = {},
+): unknown {
+  const text = requireString(input, 'tagged');
+
+  if (tag === undefined) {
+    const sections: Record<string, string> = {};
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      sections[match[1]] ??= match[2].trim();
+    }
+    if (Object.keys(sections).length === 0) {
+      throw new ParseError('No tagged sections found in output', text, {
+        format: 'tagged',
+      });
+    }
+    return sections;
+  }
+
+  const found = findTag(text, tag);
+  if (found === null) {
+    throw new ParseError(`Missing <${tag}> section in output`, text, {
+      format: 'tagged',
+    });
+  }
+
+  const { format = 'text', ...jsonOptions } = options;
+  try {
+    switch (format) {
+      case 'json':
+        return parseJson(found.content, jsonOptions);
+      case 'yaml':
+        return parseYaml(found.content);
+      default:
+        return found.content;
+    }
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error;
+    // Report the whole output, with the offset moved to match it
+    throw new ParseError(error.message, text, {
+      repairs: error.repairs,
+      offset: error.offset === undefined ? undefined : found.offset + error.offset,
+      format: error.format,
+    });
+  }
+}
+
+/** Parse `key: value` (or `key = value`) lines into a record of strings. */
+export function parseKeyValue(input: unknown): Record<string, string> {
+  const text = stripFence(requireString(input, 'keyValue'));
+  const result: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const match = /^\s*(?:[-*]\s+)?([^:=\s][^:=]*?)\s*[:=]\s*(.*?)\s*$/.exec(line);
+    if (match) {
+      result[match[1]] = match[2];
+    }
+  }
+  if (Object.keys(result).length === 0) {
+    throw new ParseError('No key-value pairs found in output', text, {
+      format: 'keyValue',
+    });
+  }
+  return result;
+}
+
+/** Guess the format of an LLM output from its shape. */
+export function detectFormat(text: string): StructuredFormat {
+  const trimmed = text.replace(/^\ufeff/, '').trim();
+  const fence = /^```([\w-]*)/.exec(trimmed);
+  if (fence) {
+    const language = fence[1].toLowerCase();
+    if (language === 'yaml' || language === 'yml') return 'yaml';
+    if (language === 'xml') return 'tagged';
+    return 'json';
+  }
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  if (/^<([A-Za-z][\w-]*)(?:\s[^>]*)?>/.test(trimmed)) return 'tagged';
+  if (looksLikeYaml(trimmed)) return 'yaml';
+  // Prose or a bare value: let the JSON parser report it
+  return 'json';
+}
+
+const YAML_LINE_PATTERN =
+  /^(?:\s.*|#.*|---.*|\.\.\.|-(?:\s.*)?|(?:"[^"]*"|'[^']*'|[\w.-]+)\s*:(?:\s.*)?)$/;
+
+/** Every unindented line is a key, a list item, a comment or a document marker. */
+function looksLikeYaml(text: string): boolean {
+  const lines = text.split('\n').filter((line) => line.trim());
+  const content = lines.filter((line) => !/^(?:#|---|\.\.\.)/.test(line));
+  return content.length > 0 && lines.every((line) => YAML_LINE_PATTERN.test(line));
+}
+
+export function parseStructured<T = unknown>(
+  input: unknown,
+  options: ParseStructuredOptions = {},
+): T {
+  const { format = 'auto', tag, ...jsonOptions } = options;
+  const text = requireString(input, format === 'auto' ? 'json' : format);
+  const resolved = format === 'auto' ? detectFormat(text) : format;
+
+  switch (resolved) {
+    case 'json':
+      return parseJson<T>(text, jsonOptions);
+    case 'yaml':
+      return parseYaml<T>(text);
+    case 'keyValue':
+      return parseKeyValue(text) as T;
+    case 'tagged': {
+      if (tag === undefined) return parseTagged(text) as T;
+      const content = parseTagged(text, tag);
+      return parseTagged<T>(text, tag, {
+        ...jsonOptions,
+        format: tagContentFormat(content, jsonOptions.extract !== undefined),
+      });
+    }
+  }
+}
+
+/** JSON when it is to be extracted or looks like it, YAML when that looks like it, else text. */
+function tagContentFormat(content: string, extract: boolean): ParseTaggedOptions['format'] {
+  if (extract) return 'json';
+  const format = detectFormat(content);
+  if (format === 'yaml') return 'yaml';
+  if (format === 'json' && /^[[{`]/.test(content)) return 'json';
+  return 'text';
+}
+
+function requireString(input: unknown, format: StructuredFormat): string {
+  if (typeof input !== 'string') {
+    throw new ParseError(
+      `Expected string, got ${typeof input}`,
+      String(input).slice(0, 500),
+      { format },
+    );
+  }
+  return input;
+}
+
+/** The trimmed content of the first `<tag>`, with its offset in `text`. */
+function findTag(text: string, tag: string): { content: string; offset: number } | null {
+  const contentStart = (match: RegExpMatchArray) => match.index! + match[0].indexOf('>') + 1;
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    if (match[1] === tag) {
+      const leading = match[2].length - match[2].trimStart().length;
+      return { content: match[2].trim(), offset: contentStart(match) + leading };
+    }
+  }
+  // The tag may be nested inside another one
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const nested = findTag(match[2], tag);
+    if (nested !== null) return { ...nested, offset: contentStart(match) + nested.offset };
+  }
+  return null;
+}
+
+function stripFence(text: string): string {
+  const stripped = text.replace(/^\ufeff/, '').trim();
+  if (!stripped.startsWith('```')) return stripped;
+  let body = stripped.slice(stripped.split('\n', 1)[0].length + 1);
+  if (body.trimEnd().endsWith('```')) {
+    body = body.trimEnd().slice(0, -3);
+  }
+  return body.trim();
+}
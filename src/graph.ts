@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { guard, type FallbackStep, type GuardOptions, type Guarded } from './guard.js';
+import type { RetryState } from './retry.js';
+
+export interface GuardNodeOptions
+  extends Omit<GuardOptions, 'input' | 'output' | 'inputParam' | 'injectRetry' | 'useParsed'> {
+  /** Schema for the state the node reads. Other state keys are not checked. */
+  input?: z.ZodObject;
+  /** Schema for the state update the node returns. */
+  output?: z.ZodObject;
+  /** Only validate these keys of `input`, so a full state schema can be shared. */
+  reads?: string[];
+  /**
+   * Keys of `output` the node may write, each optional so the update can
+   * hold any of them. Without it the update must match `output`. An update
+   * containing any other key fails validation.
+   */
+  writes?: string[];
+}
+
+/**
+ * The node as written: it receives the graph state, the graph's config (if
+ * any) and the current `RetryState`.
+ */
+export type StateGraphNode<S, C, U> = (
+  state: S,
+  config: C | undefined,
+  retry: RetryState,
+) => U | Promise<U>;
+
+/**
+ * Guard a state-graph node taking `(state, config)` and returning a partial
+ * state update. The slice of state the node reads is validated against
+ * `input`; the update is validated against the keys of `output` it is allowed
+ * to write. The graph's config is passed through untouched, with the
+ * `RetryState` as a third argument.
+ */
+export function guardNode<S = Record<string, unknown>, C = unknown, U = Partial<S>>(
+  options: GuardNodeOptions,
+): (fn: StateGraphNode<S, C, U>) => Guarded<(state: S, config?: C) => Promise<U>> {
+  const { input, output, reads, writes, onFail, ...guardOptions } = options;
+  const inputSchema = input && reads ? input.pick(keyMask(input, reads)) : input;
+  const outputSchema = output
+    ? (writes ? output.pick(keyMask(output, writes)).partial() : output).strict()
+    : undefined;
+
+  return function (fn: StateGraphNode<S, C, U>) {
+    const nodeName = options.nodeName ?? (fn.name || 'anonymous');
+
+    // Pack the call into one object so `state` is the guarded input and
+    // the RetryState lands in `retry`, whatever the graph passes as config
+    const guarded = guard<[GraphNodeCall<S, C>], U>({
+      ...guardOptions,
+      nodeName,
+      input: inputSchema,
+      output: outputSchema,
+      inputParam: 'state',
+      injectRetry: 'property',
+      onFail: Array.isArray(onFail) ? onFail.map(unpackRetryWith) : onFail,
+    })(async ({ state, config, retry }) => fn(state, config, retry!));
+
+    const node = (state: S, config?: C): Promise<U> =>
+      guarded({ state, config, retry: undefined });
+    return Object.assign(node, { contract: guarded.contract });
+  };
+}
+
+interface GraphNodeCall<S, C> {
+  state: S;
+  config: C | undefined;
+  retry: RetryState | undefined;
+}
+
+/** `retryWith` alternatives are written like the node, so unpack the call for them. */
+function unpackRetryWith(step: FallbackStep): FallbackStep {
+  if (typeof step !== 'object' || !('retryWith' in step)) return step;
+  const alternative = step.retryWith as StateGraphNode<unknown, unknown, unknown>;
+  return {
+    retryWith: ({ state, config, retry }: GraphNodeCall<unknown, unknown>) =>
+      alternative(state, config, retry!),
+  };
+}
+
+function keyMask(schema: z.ZodObject, keys: string[]): Record<string, true> {
+  const unknown = keys.filter((key) => !(key in schema.shape));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown state keys: ${unknown.join(', ')}`);
+  }
+  return Object.fromEntries(keys.map((key) => [key, true as const]));
+}
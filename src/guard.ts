@@ -4,10 +4,46 @@ import {
   createDiagnostic,
   type ViolationContext,
   type Diagnostic,
+  type DiagnosticIssue,
   type AttemptRecord,
+  type FallbackKind,
+  type OutputValidator,
+  type SyncOutputValidator,
+  type ValidatorContext,
+  type ValidatorIssue,
 } from './types.js';
 import { ParseError } from './utils.js';
-import { runWithRetryStateAsync, type RetryState } from './retry.js';
+import { collectIssues, generateSuggestion } from './issues.js';
+import { StreamValidationError } from './streaming.js';
+import type { StructuredFormat } from './formats.js';
+import { promptInstructions, type GuardContract } from './contracts.js';
+import { takeHandoffSource } from './pipeline.js';
+import {
+  resolveFeedbackFormatter,
+  type FeedbackFormatter,
+  type FeedbackPreset,
+} from './feedback.js';
+import {
+  runWithRetryState,
+  runWithRetryStateAsync,
+  neverAborted,
+  takeRepairs,
+  type RetryState,
+} from './retry.js';
+import {
+  computeBackoffDelay,
+  systemClock,
+  type BackoffOptions,
+  type Clock,
+} from './backoff.js';
+import { emitHook, type GuardHooks } from './hooks.js';
+import { createFollowUp } from './messages.js';
+import {
+  startCallTrace,
+  type AttemptTrace,
+  type CallTrace,
+  type TracingOptions,
+} from './tracing.js';
 
 type OnFailAction =
   | 'raise'
@@ -17,188 +53,928 @@ type OnFailAction =
   | 'return_input'
   | 'returnInput';
 
+/**
+ * Where the wrapped function receives its `RetryState`:
+ * - `'auto'` (default): into `args[1]` when it is undefined, into the first
+ *   argument's `retry` key when that is undefined, otherwise appended
+ * - `'none'`: not passed; read it through the `retry` proxy instead
+ * - `'append'`: as the wrapped function's last declared parameter, padding
+ *   missing optional arguments with undefined
+ * - `'property'`: as the `retry` key of the first argument
+ * - `{ index }`: inserted at that position, padding missing arguments with
+ *   undefined; the caller's later arguments move up one
+ */
+export type RetryInjection = 'auto' | 'none' | 'append' | 'property' | { index: number };
+
+/**
+ * A step of an `onFail` fallback chain. Steps run in order until one
+ * produces an output that passes the `output` schema or is a terminal action
+ * (`'raise'`, `'returnNull'`, ... or a callback).
+ */
+export type FallbackStep =
+  | OnFailAction
+  | ((error: HandoffViolation) => unknown)
+  /** Call another implementation (e.g. a different model) with the same arguments. */
+  | { retryWith: (...args: never[]) => unknown }
+  /** Return this value; it must pass the `output` schema. */
+  | { default: unknown }
+  /** Fix up the last invalid output; the result must pass the `output` schema. */
+  | { repair: (output: unknown, violation: HandoffViolation) => unknown };
+
 export interface GuardOptions {
   input?: z.ZodType;
   output?: z.ZodType;
   nodeName?: string;
   maxAttempts?: number;
   retryOn?: ('validation' | 'parse')[];
-  onFail?: OnFailAction | ((error: HandoffViolation) => unknown);
+  onFail?: OnFailAction | ((error: HandoffViolation) => unknown) | FallbackStep[];
   inputParam?: string;
+  injectRetry?: RetryInjection;
+  backoff?: BackoffOptions;
+  clock?: Clock;
+  retryOnError?: (error: unknown, state: RetryState) => boolean;
+  attemptTimeoutMs?: number;
+  deadlineMs?: number;
+  validate?: OutputValidator[];
+  useParsed?: boolean;
+  /**
+   * With an array of implementations, pick the one to run for an attempt.
+   * Defaults to one per attempt in order, repeating the last.
+   */
+  selectImplementation?: (state: RetryState, count: number) => number;
+  /** How `retry.feedback()` describes the last failure: a preset or a custom formatter. */
+  feedback?: FeedbackPreset | FeedbackFormatter;
+  hooks?: GuardHooks;
+  tracing?: TracingOptions;
 }
 
 export type GuardOnFailAction = OnFailAction;
 
+type SchemaInput<T> = T extends z.ZodType ? z.input<T> : unknown;
+type SchemaOutput<T> = T extends z.ZodType ? z.output<T> : unknown;
+
+/**
+ * Decorator returned when `useParsed` is set: the wrapped function receives the
+ * parsed input and callers receive the parsed (defaulted/transformed) output.
+ */
+export type ParsedGuardDecorator<TIn, TOut> = <TRest extends unknown[]>(
+  fn: Implementations<(input: SchemaOutput<TIn>, ...rest: TRest) => Promise<SchemaInput<TOut>>>,
+) => Guarded<(input: SchemaInput<TIn>, ...rest: TRest) => Promise<SchemaOutput<TOut>>>;
+
+/** One implementation, or several to escalate through across attempts. */
+export type Implementations<F> = F | F[];
+
+/** A guarded function, exposing the contract it validates. */
+export type Guarded<F> = F & { readonly contract: GuardContract };
+
+/** The caller-facing parameters of a function that receives `RetryState` via `mode`. */
+export type CallerArgs<P extends unknown[], M extends RetryInjection> = M extends 'append'
+  ? DropLast<P>
+  : M extends 'property'
+    ? P extends [infer First, ...infer Rest]
+      ? [Omit<First, 'retry'>, ...Rest]
+      : P
+    : M extends { index: infer N extends number }
+      ? RemoveAt<P, N>
+      : P;
+
+type DropLast<P extends unknown[]> = P extends [...infer Head, unknown]
+  ? Head
+  : P extends [...infer Head, unknown?]
+    ? Head
+    : P;
+
+/** `P` without the parameter at index `N`; a rest parameter before `N` is kept whole. */
+type RemoveAt<P extends unknown[], N extends number, Taken extends unknown[] = []> =
+  Taken['length'] extends N
+    ? P extends [unknown?, ...infer Tail]
+      ? [...Taken, ...Tail]
+      : [...Taken, ...P]
+    : P extends []
+      ? Taken
+      : P extends [infer Head, ...infer Tail]
+        ? RemoveAt<Tail, N, [...Taken, Head]>
+        : P extends [(infer Head)?, ...infer Tail]
+          ? RemoveAt<Tail, N, [...Taken, Head?]>
+          : [...Taken, ...P];
+
+/**
+ * Decorator returned when `injectRetry` is set: callers omit the `RetryState`
+ * parameter the wrapped function declares.
+ */
+export type InjectedGuardDecorator<M extends RetryInjection> = <
+  F extends (...args: any[]) => Promise<unknown>,
+>(
+  fn: Implementations<F>,
+) => Guarded<(...args: CallerArgs<Parameters<F>, M>) => ReturnType<F>>;
+
+export type InjectedGuardSyncDecorator<M extends RetryInjection> = <
+  F extends (...args: any[]) => unknown,
+>(
+  fn: Implementations<F>,
+) => Guarded<(...args: CallerArgs<Parameters<F>, M>) => ReturnType<F>>;
+
+export function guard<
+  TIn extends z.ZodType | undefined = undefined,
+  TOut extends z.ZodType | undefined = undefined,
+>(
+  options: GuardOptions & {
+    input?: TIn;
+    output?: TOut;
+    inputParam?: undefined;
+    useParsed: true;
+  },
+): ParsedGuardDecorator<TIn, TOut>;
+export function guard<const M extends Exclude<RetryInjection, 'auto'>>(
+  options: GuardOptions & { injectRetry: M; useParsed?: false },
+): InjectedGuardDecorator<M>;
+export function guard<TArgs extends unknown[], TReturn>(
+  options: GuardOptions,
+): (
+  fn: Implementations<(...args: TArgs) => Promise<TReturn>>,
+) => Guarded<(...args: TArgs) => Promise<TReturn>>;
 export function guard<TArgs extends unknown[], TReturn>(
   options: GuardOptions,
-): (fn: (...args: TArgs) => Promise<TReturn>) => (...args: TArgs) => Promise<TReturn> {
+): (
+  fn: Implementations<(...args: TArgs) => Promise<TReturn>>,
+) => Guarded<(...args: TArgs) => Promise<TReturn>> {
   const {
-    input: inputSchema,
-    output: outputSchema,
-    nodeName,
     maxAttempts = 1,
-    retryOn = ['validation', 'parse'],
-    onFail = 'raise',
-    inputParam,
+    backoff,
+    clock = systemClock,
+    attemptTimeoutMs,
+    deadlineMs,
+    validate: validators = [],
   } = options;
 
   return function (
-    fn: (...args: TArgs) => Promise<TReturn>,
-  ): (...args: TArgs) => Promise<TReturn> {
-    const resolvedNodeName = nodeName ?? fn.name ?? 'anonymous';
+    fn: Implementations<(...args: TArgs) => Promise<TReturn>>,
+  ): Guarded<(...args: TArgs) => Promise<TReturn>> {
+    const implementations = Array.isArray(fn) ? fn : [fn];
+    const resolvedNodeName = options.nodeName ?? implementations[0].name ?? 'anonymous';
 
-    return async function guarded(this: unknown, ...args: TArgs): Promise<TReturn> {
-      const inputData = resolveInputData(args, inputParam);
+    const guarded = async function guarded(this: unknown, ...args: TArgs): Promise<TReturn> {
+      const run = new GuardRun(options, resolvedNodeName, args);
 
       // Validate input (no retry on input errors)
-      if (inputSchema) {
-        const inputResult = inputSchema.safeParse(inputData);
-        if (!inputResult.success) {
-          const firstError = inputResult.error.issues[0];
-          const violation = new HandoffViolation({
-            context: {
-              nodeName: resolvedNodeName,
-              contractType: 'input',
-              fieldPath: firstError.path.join('.') || 'root',
-              expected: firstError.message,
-              received:
-                JSON.stringify(inputData)?.slice(0, 200) ?? 'undefined',
-              receivedType: typeof inputData,
-              suggestion: generateSuggestion(firstError),
-            },
-          });
-          return handleFailure(violation, inputData, onFail) as TReturn;
-        }
+      const inputViolation = run.checkInput();
+      if (inputViolation) {
+        return (await run.failAsync(inputViolation)) as TReturn;
       }
 
       // Retry loop
-      const history: AttemptRecord[] = [];
-      let lastError: Diagnostic | null = null;
+      let delayMs = 0;
+      const callStart = clock.now();
 
       for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-        const startTime = Date.now();
-
-        const state: RetryState = {
-          attempt,
-          maxAttempts,
-          remaining: maxAttempts - attempt,
-          isRetry: attempt > 1,
-          isFinalAttempt: attempt === maxAttempts,
-          lastError,
-          history: [...history],
-          feedback: () => formatFeedback(lastError),
-        };
+        delayMs =
+          attempt > 1 && backoff
+            ? computeBackoffDelay(backoff, attempt - 1, delayMs)
+            : 0;
+
+        // Give up before sleeping if the next attempt could not start in time
+        if (
+          attempt > 1 &&
+          deadlineMs !== undefined &&
+          clock.now() + delayMs - callStart >= deadlineMs
+        ) {
+          const violation = run.violation(deadlineContext(deadlineMs));
+          return (await run.failAsync(violation)) as TReturn;
+        }
 
+        if (delayMs > 0) {
+          await clock.sleep(delayMs);
+        }
+
+        const controller = new AbortController();
+        const timeout = resolveAttemptTimeout(
+          attemptTimeoutMs,
+          deadlineMs === undefined
+            ? undefined
+            : { ms: deadlineMs, remainingMs: deadlineMs - (clock.now() - callStart) },
+        );
+        const state = run.startAttempt(attempt, delayMs, controller.signal);
+        const implementation = run.selectImplementation(implementations, state);
+
+        let failure: AttemptFailure;
         try {
           const context = this;
-          const result = await runWithRetryStateAsync(state, () =>
-            fn.apply(context, buildCallArgs(args, state) as TArgs),
+          const result = await withTimeout(
+            runWithRetryStateAsync(state, () =>
+              implementation.apply(context, run.callArgs(state, implementation) as TArgs),
+            ),
+            timeout,
+            controller,
           );
 
-          // Validate output
-          if (outputSchema) {
-            const outputResult = outputSchema.safeParse(result);
-            if (!outputResult.success) {
-              const firstError = outputResult.error.issues[0];
-              const diagnostic = createDiagnostic({
-                type: 'validation',
-                message: firstError.message,
-                field: firstError.path.join('.') || 'root',
-                expected: firstError.message,
-                received: JSON.stringify(result)?.slice(0, 200),
-                suggestion: generateSuggestion(firstError),
-              });
-
-              history.push({
-                attempt,
-                timestamp: new Date(),
-                durationMs: Date.now() - startTime,
-                diagnostic,
-              });
-
-              lastError = diagnostic;
-
-              if (attempt < maxAttempts && retryOn.includes('validation')) {
-                continue;
-              }
-
-              const violation = new HandoffViolation({
-                context: {
-                  nodeName: resolvedNodeName,
-                  contractType: 'output',
-                  fieldPath: firstError.path.join('.') || 'root',
-                  expected: firstError.message,
-                  received:
-                    JSON.stringify(result)?.slice(0, 200) ?? 'undefined',
-                  receivedType: typeof result,
-                  suggestion: generateSuggestion(firstError),
-                },
-                history,
-              });
-              return handleFailure(violation, inputData, onFail) as TReturn;
-            }
+          // Validate output: schema first, then custom validators
+          let { output, issues } = run.checkOutput(result);
+          if (issues.length === 0 && validators.length > 0) {
+            issues = await runValidators(validators, output, run.validatorContext(state));
           }
 
-          // Success
-          history.push({
-            attempt,
-            timestamp: new Date(),
-            durationMs: Date.now() - startTime,
-            diagnostic: null,
-          });
-
-          return result;
+          if (issues.length === 0) {
+            return run.succeed(state, output) as TReturn;
+          }
+          failure = run.validationFailure(issues, result);
         } catch (error) {
-          const durationMs = Date.now() - startTime;
-
-          if (error instanceof ParseError) {
-            const diagnostic = createDiagnostic({
-              type: 'parse',
-              message: error.message,
-              rawOutput: error.rawOutput,
-              suggestion: 'Return valid JSON',
-            });
-
-            history.push({
-              attempt,
-              timestamp: new Date(),
-              durationMs,
-              diagnostic,
-            });
-
-            lastError = diagnostic;
-
-            if (attempt < maxAttempts && retryOn.includes('parse')) {
-              continue;
-            }
-
-            // Propagate ParseError as-is when not retryable
-            if (maxAttempts === 1 || !retryOn.includes('parse')) {
-              throw error;
-            }
-
-            const violation = new HandoffViolation({
-              context: {
-                nodeName: resolvedNodeName,
-                contractType: 'output',
-                fieldPath: 'root',
-                expected: 'Valid JSON',
-                received: error.rawOutput.slice(0, 200),
-                receivedType: 'string',
-                suggestion: 'Return valid JSON',
-              },
-              history,
-            });
-            return handleFailure(violation, inputData, onFail) as TReturn;
+          failure = run.classify(error, state);
+        }
+
+        const violation = run.settle(state, failure);
+        if (violation) {
+          return (await run.failAsync(violation)) as TReturn;
+        }
+      }
+
+      throw new Error('Unexpected end of retry loop');
+    };
+
+    return withContract(guarded, {
+      nodeName: resolvedNodeName,
+      input: options.input,
+      output: options.output,
+    });
+  };
+}
+
+/**
+ * Options for {@link guardSync}. Backoff, timeouts and deadlines need to wait,
+ * so they are only available on the async `guard()`.
+ */
+export type GuardSyncOptions = Omit<
+  GuardOptions,
+  'backoff' | 'attemptTimeoutMs' | 'deadlineMs' | 'validate'
+> & {
+  validate?: SyncOutputValidator[];
+};
+
+export function guardSync<const M extends Exclude<RetryInjection, 'auto'>>(
+  options: GuardSyncOptions & { injectRetry: M },
+): InjectedGuardSyncDecorator<M>;
+export function guardSync<TArgs extends unknown[], TReturn>(
+  options: GuardSyncOptions,
+): (fn: Implementations<(...args: TArgs) => TReturn>) => Guarded<(...args: TArgs) => TReturn>;
+export function guardSync<TArgs extends unknown[], TReturn>(
+  options: GuardSyncOptions,
+): (fn: Implementations<(...args: TArgs) => TReturn>) => Guarded<(...args: TArgs) => TReturn> {
+  const { maxAttempts = 1, validate: validators = [] } = options;
+
+  return function (
+    fn: Implementations<(...args: TArgs) => TReturn>,
+  ): Guarded<(...args: TArgs) => TReturn> {
+    const implementations = Array.isArray(fn) ? fn : [fn];
+    const resolvedNodeName = options.nodeName ?? implementations[0].name ?? 'anonymous';
+
+    const guarded = function guarded(this: unknown, ...args: TArgs): TReturn {
+      const run = new GuardRun(options, resolvedNodeName, args);
+
+      // Validate input (no retry on input errors)
+      const inputViolation = run.checkInput();
+      if (inputViolation) {
+        return run.fail(inputViolation) as TReturn;
+      }
+
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const state = run.startAttempt(attempt, 0, neverAborted);
+        const implementation = run.selectImplementation(implementations, state);
+
+        let failure: AttemptFailure;
+        try {
+          const context = this;
+          const result = runWithRetryState(state, () =>
+            implementation.apply(context, run.callArgs(state, implementation) as TArgs),
+          );
+
+          let { output, issues } = run.checkOutput(result);
+          if (issues.length === 0 && validators.length > 0) {
+            issues = runValidatorsSync(validators, output, run.validatorContext(state));
           }
 
-          // Re-throw other errors immediately
-          throw error;
+          if (issues.length === 0) {
+            return run.succeed(state, output) as TReturn;
+          }
+          failure = run.validationFailure(issues, result);
+        } catch (error) {
+          failure = run.classify(error, state);
+        }
+
+        const violation = run.settle(state, failure);
+        if (violation) {
+          return run.fail(violation) as TReturn;
         }
       }
 
       throw new Error('Unexpected end of retry loop');
     };
+
+    return withContract(guarded, {
+      nodeName: resolvedNodeName,
+      input: options.input,
+      output: options.output,
+    });
+  };
+}
+
+function withContract<F extends (...args: never[]) => unknown>(
+  fn: F,
+  contract: GuardContract,
+): Guarded<F> {
+  return Object.assign(fn, { contract });
+}
+
+/**
+ * State of one guarded call, shared by the async and sync retry loops:
+ * input handling, attempt history, hooks and tracing.
+ */
+class GuardRun {
+  readonly history: AttemptRecord[] = [];
+  lastState: RetryState | null = null;
+  private lastError: Diagnostic | null = null;
+  private lastOutput: unknown = undefined;
+  private readonly inputData: unknown;
+  private readonly handoffSource: string | undefined;
+  private validatedInput: unknown;
+  private args: unknown[];
+  private readonly maxAttempts: number;
+  private readonly clock: Clock;
+  private readonly formatFeedback: FeedbackFormatter;
+  private readonly trace: CallTrace | undefined;
+  private attemptTrace: AttemptTrace | undefined;
+  private attemptStart = 0;
+  private attemptDelayMs = 0;
+  private attemptImplementation: string | undefined;
+
+  constructor(
+    private readonly options: GuardOptions | GuardSyncOptions,
+    private readonly nodeName: string,
+    args: unknown[],
+  ) {
+    this.args = args;
+    this.inputData = resolveInputData(args, options.inputParam);
+    this.handoffSource = takeHandoffSource();
+    this.validatedInput = this.inputData;
+    this.maxAttempts = options.maxAttempts ?? 1;
+    this.clock = options.clock ?? systemClock;
+    this.formatFeedback = resolveFeedbackFormatter(options.feedback);
+    this.trace = startCallTrace(options.tracing, nodeName);
+  }
+
+  checkInput(): HandoffViolation | null {
+    const { input: inputSchema, inputParam, useParsed } = this.options;
+    if (!inputSchema) return null;
+
+    const inputResult = inputSchema.safeParse(this.inputData);
+    if (!inputResult.success) {
+      const firstError = inputResult.error.issues[0];
+      const fieldPath = firstError.path.join('.') || 'root';
+      return new HandoffViolation({
+        context: {
+          nodeName: this.nodeName,
+          contractType: 'input',
+          fieldPath,
+          expected: firstError.message,
+          received: JSON.stringify(this.inputData)?.slice(0, 200) ?? 'undefined',
+          receivedType: typeof this.inputData,
+          suggestion: generateSuggestion(firstError),
+          issues: collectIssues(inputResult.error, this.inputData),
+          ...(this.handoffSource && {
+            edge: { from: this.handoffSource, to: this.nodeName, field: fieldPath },
+          }),
+        },
+      });
+    }
+    if (useParsed) {
+      this.validatedInput = inputResult.data;
+      this.args = replaceInputData(this.args, inputParam, inputResult.data);
+    }
+    return null;
+  }
+
+  startAttempt(
+    attempt: number,
+    delayMs: number,
+    signal: AbortSignal,
+    maxAttempts = this.maxAttempts,
+  ): RetryState {
+    const state = this.retryState(attempt, maxAttempts, signal);
+    this.lastState = state;
+    this.attemptStart = this.clock.now();
+    this.attemptDelayMs = delayMs;
+    this.attemptImplementation = undefined;
+
+    emitHook(this.options.hooks, 'onAttemptStart', { nodeName: this.nodeName, state });
+    this.attemptTrace = this.trace?.startAttempt(attempt, maxAttempts);
+    return state;
+  }
+
+  /** Pick the implementation for this attempt, noting it in the record when there is a choice. */
+  selectImplementation<F extends (...args: never[]) => unknown>(implementations: F[], state: RetryState): F {
+    if (implementations.length === 1) return implementations[0];
+
+    const select =
+      this.options.selectImplementation ?? ((current: RetryState) => current.attempt - 1);
+    const selected = Math.floor(select(state, implementations.length));
+    const index = Math.min(Math.max(selected, 0), implementations.length - 1);
+    const implementation = implementations[index];
+    this.attemptImplementation = implementation.name || `#${index}`;
+    return implementation;
+  }
+
+  /** The arguments to call `fn` with: the caller's, plus the `RetryState`. */
+  callArgs(state: RetryState, fn: (...args: never[]) => unknown): unknown[] {
+    return buildCallArgs(this.args, state, this.options.injectRetry ?? 'auto', fn.length);
+  }
+
+  validatorContext(state: RetryState): ValidatorContext {
+    return { input: this.validatedInput, state };
+  }
+
+  checkOutput(result: unknown): { output: unknown; issues: DiagnosticIssue[] } {
+    const { output: outputSchema, useParsed } = this.options;
+    if (!outputSchema) return { output: result, issues: [] };
+
+    const outputResult = outputSchema.safeParse(result);
+    if (!outputResult.success) {
+      return { output: result, issues: collectIssues(outputResult.error, result) };
+    }
+    return { output: useParsed ? outputResult.data : result, issues: [] };
+  }
+
+  validationFailure(issues: DiagnosticIssue[], result: unknown): AttemptFailure {
+    const retryOn = this.options.retryOn ?? DEFAULT_RETRY_ON;
+    return validationFailure(issues, result, retryOn.includes('validation'));
+  }
+
+  /** Classify a thrown error, rethrowing errors that are not retryable. */
+  classify(error: unknown, state: RetryState): AttemptFailure {
+    const classified = classifyError(error, state, {
+      maxAttempts: this.maxAttempts,
+      retryOn: this.options.retryOn ?? DEFAULT_RETRY_ON,
+      retryOnError: this.options.retryOnError,
+    });
+    // Re-throw unclassified errors immediately, after closing the attempt
+    if (!classified) {
+      const record = this.record(
+        state.attempt,
+        createDiagnostic({
+          type: 'error',
+          message: error instanceof Error ? error.message : String(error),
+          received: error instanceof Error ? error.name : typeof error,
+        }),
+      );
+      this.attemptTrace?.end(record, 'error', error);
+      this.trace?.end('error', this.history.length, error);
+      emitHook(this.options.hooks, 'onAttemptEnd', { nodeName: this.nodeName, state, record });
+      throw error;
+    }
+    return { ...classified, cause: error };
+  }
+
+  succeed(state: RetryState, output: unknown): unknown {
+    const record = this.record(state.attempt, null);
+    this.attemptTrace?.end(record, 'success');
+    this.trace?.end('success', this.history.length);
+
+    const event = { nodeName: this.nodeName, state, record };
+    emitHook(this.options.hooks, 'onAttemptEnd', event);
+    emitHook(this.options.hooks, 'onSuccess', { ...event, output });
+    return output;
+  }
+
+  /**
+   * Record a failed attempt. Returns null when the loop should retry, the
+   * violation to raise otherwise, or rethrows the original error.
+   */
+  settle(state: RetryState, failure: AttemptFailure): HandoffViolation | null {
+    const record = this.record(state.attempt, failure.diagnostic);
+    this.lastError = failure.diagnostic;
+    this.lastOutput = failure.output;
+
+    const willRetry = state.attempt < this.maxAttempts && failure.retryable;
+    this.attemptTrace?.end(record, willRetry ? 'retry' : 'failed');
+
+    const event = { nodeName: this.nodeName, state, record };
+    emitHook(this.options.hooks, 'onAttemptEnd', event);
+
+    if (willRetry) {
+      emitHook(this.options.hooks, 'onRetry', event);
+      return null;
+    }
+
+    // A fallback chain gets its chance before the error is rethrown
+    if (failure.propagate && !Array.isArray(this.options.onFail)) {
+      this.trace?.end('error', this.history.length, failure.propagate.error);
+      throw failure.propagate.error;
+    }
+
+    return this.violation(failure.context, failure.cause);
+  }
+
+  violation(context: Omit<ViolationContext, 'nodeName'>, cause?: unknown): HandoffViolation {
+    return new HandoffViolation({
+      context: { nodeName: this.nodeName, ...context },
+      history: this.history,
+      cause,
+    });
+  }
+
+  /**
+   * Apply `onFail`. The call ends as a violation unless a fallback step
+   * produces a valid output.
+   */
+  fail(violation: HandoffViolation): unknown {
+    const onFail = this.options.onFail ?? 'raise';
+    if (!Array.isArray(onFail)) return this.giveUp(violation, onFail);
+
+    const chain = this.fallbackChain(violation, onFail);
+    let step = chain.next();
+    while (!step.done) {
+      step = chain.next(callSync(step.value));
+    }
+    return this.finishFallback(step.value);
+  }
+
+  async failAsync(violation: HandoffViolation): Promise<unknown> {
+    const onFail = this.options.onFail ?? 'raise';
+    if (!Array.isArray(onFail)) return this.giveUp(violation, onFail);
+
+    const chain = this.fallbackChain(violation, onFail);
+    let step = chain.next();
+    while (!step.done) {
+      step = chain.next(await callAsync(step.value));
+    }
+    return this.finishFallback(step.value);
+  }
+
+  private finishFallback(result: FallbackResult): unknown {
+    if ('violation' in result) return this.giveUp(result.violation, result.action);
+
+    this.trace?.end('success', this.history.length);
+    emitHook(this.options.hooks, 'onSuccess', { nodeName: this.nodeName, ...result });
+    return result.output;
+  }
+
+  /** Report the violation, then handle it with a terminal `onFail` action. */
+  private giveUp(violation: HandoffViolation, action: TerminalAction): unknown {
+    this.trace?.end('violation', violation.history.length, violation);
+    emitHook(this.options.hooks, 'onViolation', {
+      nodeName: this.nodeName,
+      violation,
+      state: this.lastState,
+    });
+    return handleFailure(violation, this.inputData, action);
+  }
+
+  /**
+   * Walk the fallback steps, recording each non-terminal step in the
+   * history. Yields the `retryWith` calls so the sync and async drivers can
+   * run them; those get attempt hooks and spans like regular attempts.
+   * There is no output to retry or repair after an input violation, so
+   * those steps are skipped.
+   */
+  private *fallbackChain(
+    violation: HandoffViolation,
+    steps: FallbackStep[],
+  ): Generator<() => unknown, FallbackResult, CallOutcome> {
+    const fallbackStart = this.history.length;
+    const current = () =>
+      this.history.length === fallbackStart
+        ? violation
+        : new HandoffViolation({
+            context: violation.context,
+            history: [...this.history],
+            cause: violation.cause,
+          });
+    const inputViolation = violation.context.contractType === 'input';
+
+    for (const step of steps) {
+      if (typeof step === 'string' || typeof step === 'function') {
+        return { violation: current(), action: step };
+      }
+      if (inputViolation && !('default' in step)) continue;
+
+      const attempt = this.history.length + 1;
+      let state: RetryState;
+      let outcome: CallOutcome;
+      let kind: FallbackKind;
+      if ('retryWith' in step) {
+        kind = 'retryWith';
+        const retryState = this.startAttempt(attempt, 0, neverAborted, attempt);
+        const retryWith = step.retryWith as (...args: unknown[]) => unknown;
+        state = retryState;
+        outcome = yield () =>
+          runWithRetryState(retryState, () => retryWith(...this.callArgs(retryState, retryWith)));
+      } else {
+        state = this.retryState(attempt, attempt, neverAborted);
+        this.attemptStart = this.clock.now();
+        this.attemptDelayMs = 0;
+        this.attemptImplementation = undefined;
+        if ('repair' in step) {
+          kind = 'repair';
+          outcome = callSync(() => step.repair(this.lastOutput, current()));
+        } else {
+          kind = 'default';
+          outcome = { value: step.default };
+        }
+      }
+
+      let failure: Pick<AttemptFailure, 'diagnostic' | 'output'>;
+      if ('error' in outcome) {
+        failure = fallbackError(outcome.error);
+      } else {
+        const { output, issues } = this.checkOutput(outcome.value);
+        if (issues.length === 0) {
+          const record = this.record(attempt, null, kind);
+          this.endFallbackAttempt(state, record, 'success');
+          return { output, state, record };
+        }
+        failure = this.validationFailure(issues, outcome.value);
+      }
+      const record = this.record(attempt, failure.diagnostic, kind);
+      this.endFallbackAttempt(state, record, 'failed');
+      this.lastError = failure.diagnostic;
+      if (failure.output !== undefined) this.lastOutput = failure.output;
+    }
+
+    return { violation: current(), action: 'raise' };
+  }
+
+  /** Close the span and fire `onAttemptEnd` for a `retryWith` step. */
+  private endFallbackAttempt(
+    state: RetryState,
+    record: AttemptRecord,
+    outcome: 'success' | 'failed',
+  ): void {
+    if (record.fallback !== 'retryWith') return;
+    this.attemptTrace?.end(record, outcome);
+    emitHook(this.options.hooks, 'onAttemptEnd', { nodeName: this.nodeName, state, record });
+  }
+
+  private retryState(attempt: number, maxAttempts: number, signal: AbortSignal): RetryState {
+    const diagnostic = this.lastError;
+    const history = [...this.history];
+    const feedback = () =>
+      diagnostic
+        ? this.formatFeedback({
+            nodeName: this.nodeName,
+            diagnostic,
+            history,
+            schema: this.options.output,
+          })
+        : null;
+    return {
+      attempt,
+      maxAttempts,
+      remaining: maxAttempts - attempt,
+      isRetry: attempt > 1,
+      isFinalAttempt: attempt === maxAttempts,
+      lastError: diagnostic,
+      history,
+      feedback,
+      instructions: () => (this.options.output ? promptInstructions(this.options.output) : null),
+      followUp: createFollowUp(diagnostic, feedback),
+      signal,
+    };
+  }
+
+  private record(
+    attempt: number,
+    diagnostic: Diagnostic | null,
+    fallback?: FallbackKind,
+  ): AttemptRecord {
+    const record: AttemptRecord = {
+      attempt,
+      timestamp: new Date(),
+      durationMs: this.clock.now() - this.attemptStart,
+      delayMs: this.attemptDelayMs,
+      diagnostic,
+    };
+    if (this.attemptImplementation) record.implementation = this.attemptImplementation;
+    if (fallback) record.fallback = fallback;
+    const repairs = takeRepairs(this.lastState);
+    if (repairs.length > 0) record.repairs = repairs;
+    this.history.push(record);
+    return record;
+  }
+}
+
+const DEFAULT_RETRY_ON: NonNullable<GuardOptions['retryOn']> = ['validation', 'parse'];
+
+const FORMAT_LABELS: Record<StructuredFormat, string> = {
+  json: 'JSON',
+  yaml: 'YAML',
+  tagged: 'tagged output',
+  keyValue: 'key: value lines',
+};
+
+interface AttemptFailure {
+  diagnostic: Diagnostic;
+  retryable: boolean;
+  context: Omit<ViolationContext, 'nodeName'>;
+  /** The invalid output, kept for `repair` fallbacks. */
+  output?: unknown;
+  /**
+   * Set when the original error should be rethrown instead of a violation,
+   * unless `onFail` is a fallback chain.
+   */
+  propagate?: { error: unknown };
+  /** The thrown error, kept as the violation's `cause`. */
+  cause?: unknown;
+}
+
+function validationFailure(
+  issues: DiagnosticIssue[],
+  result: unknown,
+  retryable: boolean,
+): AttemptFailure {
+  const firstIssue = issues[0];
+  const received = JSON.stringify(result)?.slice(0, 200);
+  return {
+    diagnostic: createDiagnostic({
+      type: 'validation',
+      message: firstIssue.expected,
+      field: firstIssue.field,
+      expected: firstIssue.expected,
+      received,
+      suggestion: firstIssue.suggestion,
+      issues,
+    }),
+    retryable,
+    context: {
+      contractType: 'output',
+      fieldPath: firstIssue.field,
+      expected: firstIssue.expected,
+      received: received ?? 'undefined',
+      receivedType: typeof result,
+      suggestion: firstIssue.suggestion,
+      issues,
+    },
+    output: result,
+  };
+}
+
+function classifyError(
+  error: unknown,
+  state: RetryState,
+  options: Pick<GuardOptions, 'retryOnError'> & {
+    maxAttempts: number;
+    retryOn: NonNullable<GuardOptions['retryOn']>;
+  },
+): AttemptFailure | null {
+  const { maxAttempts, retryOn, retryOnError } = options;
+
+  if (error instanceof AttemptTimeoutError) {
+    const suggestion = 'Respond faster or return a shorter output';
+    return {
+      diagnostic: createDiagnostic({
+        type: 'timeout',
+        message: error.message,
+        suggestion,
+      }),
+      retryable: !error.deadline,
+      context: error.deadline
+        ? deadlineContext(error.deadlineMs)
+        : {
+            contractType: 'output',
+            fieldPath: 'root',
+            expected: `Completion within ${error.timeoutMs}ms`,
+            received: 'timeout',
+            receivedType: 'timeout',
+            suggestion,
+          },
+    };
+  }
+
+  if (error instanceof StreamValidationError) {
+    return validationFailure(error.issues, error.partial, retryOn.includes('validation'));
+  }
+
+  if (error instanceof ParseError) {
+    const retryable = retryOn.includes('parse');
+    const label = FORMAT_LABELS[error.format];
+    return {
+      diagnostic: createDiagnostic({
+        type: 'parse',
+        message: error.message,
+        rawOutput: error.rawOutput,
+        suggestion: `Return valid ${label}`,
+        repairs: error.repairs.length > 0 ? error.repairs : undefined,
+      }),
+      retryable,
+      context: {
+        contractType: 'output',
+        fieldPath: 'root',
+        expected: `Valid ${label}`,
+        received: error.rawOutput.slice(0, 200),
+        receivedType: 'string',
+        suggestion: `Return valid ${label}`,
+      },
+      output: error.rawOutput,
+      // Propagate ParseError as-is when not retryable
+      propagate: maxAttempts === 1 || !retryable ? { error } : undefined,
+    };
+  }
+
+  if (retryOnError?.(error, state)) {
+    const message = error instanceof Error ? error.message : String(error);
+    const errorName = error instanceof Error ? error.name : typeof error;
+    const suggestion = 'Previous attempt threw an error; try again';
+    return {
+      diagnostic: createDiagnostic({
+        type: 'error',
+        message,
+        received: errorName,
+        suggestion,
+      }),
+      retryable: true,
+      context: {
+        contractType: 'output',
+        fieldPath: 'root',
+        expected: 'No error',
+        received: `${errorName}: ${message}`.slice(0, 200),
+        receivedType: errorName,
+        suggestion,
+      },
+      // Propagate the error as-is when there was nothing to retry
+      propagate: maxAttempts === 1 ? { error } : undefined,
+    };
+  }
+
+  return null;
+}
+
+/** Thrown (and used as the abort reason) when an attempt runs out of time. */
+export class AttemptTimeoutError extends Error {
+  readonly timeoutMs: number;
+  readonly deadline: boolean;
+  readonly deadlineMs: number;
+
+  constructor(timeout: AttemptTimeout) {
+    super(
+      timeout.deadline
+        ? `Deadline exceeded after ${timeout.deadlineMs}ms`
+        : `Attempt timed out after ${timeout.ms}ms`,
+    );
+    this.name = 'AttemptTimeoutError';
+    this.timeoutMs = timeout.ms;
+    this.deadline = timeout.deadline;
+    this.deadlineMs = timeout.deadlineMs ?? timeout.ms;
+  }
+}
+
+export interface AttemptTimeout {
+  ms: number;
+  deadline: boolean;
+  deadlineMs?: number;
+}
+
+function resolveAttemptTimeout(
+  attemptTimeoutMs: number | undefined,
+  deadline: { ms: number; remainingMs: number } | undefined,
+): AttemptTimeout | undefined {
+  if (!deadline) {
+    return attemptTimeoutMs === undefined
+      ? undefined
+      : { ms: attemptTimeoutMs, deadline: false };
+  }
+  const ms = Math.max(0, deadline.remainingMs);
+  if (attemptTimeoutMs !== undefined && attemptTimeoutMs < ms) {
+    return { ms: attemptTimeoutMs, deadline: false };
+  }
+  return { ms, deadline: true, deadlineMs: deadline.ms };
+}
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: AttemptTimeout | undefined,
+  controller: AbortController,
+): Promise<T> {
+  if (!timeout) return promise;
+
+  // The losing promise may still reject later; keep that from going unhandled
+  promise.catch(() => {});
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      const error = new AttemptTimeoutError(timeout);
+      controller.abort(error);
+      reject(error);
+    }, timeout.ms);
+  });
+
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+function deadlineContext(deadlineMs: number): Omit<ViolationContext, 'nodeName'> {
+  return {
+    contractType: 'output',
+    fieldPath: 'root',
+    expected: `Completion within deadline of ${deadlineMs}ms`,
+    received: 'timeout',
+    receivedType: 'timeout',
+    suggestion: 'Respond faster or return a shorter output',
   };
 }
 
@@ -220,10 +996,52 @@ function resolveInputData<TArgs extends unknown[]>(
   return firstArg;
 }
 
+function replaceInputData<TArgs extends unknown[]>(
+  args: TArgs,
+  inputParam: string | undefined,
+  data: unknown,
+): TArgs {
+  if (args.length === 0) return args;
+  const firstArg = args[0];
+  if (
+    inputParam &&
+    firstArg &&
+    typeof firstArg === 'object' &&
+    !Array.isArray(firstArg) &&
+    inputParam in (firstArg as Record<string, unknown>)
+  ) {
+    return [{ ...firstArg, [inputParam]: data }, ...args.slice(1)] as TArgs;
+  }
+  return [data, ...args.slice(1)] as TArgs;
+}
+
 function buildCallArgs<TArgs extends unknown[]>(
   args: TArgs,
   state: RetryState,
+  mode: RetryInjection,
+  arity: number,
 ): unknown[] {
+  if (mode === 'none') return [...args];
+  if (mode === 'append') {
+    // Skipped optional parameters must not receive the state
+    const nextArgs: unknown[] = [...args];
+    while (nextArgs.length < arity - 1) nextArgs.push(undefined);
+    return [...nextArgs, state];
+  }
+  if (mode === 'property') {
+    const firstArg = args[0];
+    if (!firstArg || typeof firstArg !== 'object' || Array.isArray(firstArg)) {
+      throw new TypeError("injectRetry: 'property' needs an object as the first argument");
+    }
+    return [{ ...firstArg, retry: state }, ...args.slice(1)];
+  }
+  if (typeof mode === 'object') {
+    const nextArgs: unknown[] = [...args];
+    while (nextArgs.length < mode.index) nextArgs.push(undefined);
+    nextArgs.splice(mode.index, 0, state);
+    return nextArgs;
+  }
+
   if (args.length >= 2) {
     if (args[1] === undefined) {
       const nextArgs = [...args];
@@ -253,7 +1071,7 @@ function buildCallArgs<TArgs extends unknown[]>(
 function handleFailure(
   violation: HandoffViolation,
   inputData: unknown,
-  onFail: OnFailAction | ((error: HandoffViolation) => unknown),
+  onFail: TerminalAction,
 ): unknown {
   if (onFail === 'raise' || onFail === 'throw') {
     throw violation;
@@ -270,37 +1088,98 @@ function handleFailure(
   throw violation;
 }
 
-function formatFeedback(diagnostic: Diagnostic | null): string | null {
-  if (!diagnostic) return null;
+type CallOutcome = { value: unknown } | { error: unknown };
+
+type TerminalAction = OnFailAction | ((error: HandoffViolation) => unknown);
+
+/** A fallback chain either recovers with a valid output or ends with a terminal action. */
+type FallbackResult =
+  | { output: unknown; state: RetryState; record: AttemptRecord }
+  | { violation: HandoffViolation; action: TerminalAction };
+
+function callSync(call: () => unknown): CallOutcome {
+  try {
+    const value = call();
+    if (value instanceof Promise) {
+      value.catch(() => {});
+      return { error: new TypeError('guardSync fallbacks must return synchronously') };
+    }
+    return { value };
+  } catch (error) {
+    return { error };
+  }
+}
+
+async function callAsync(call: () => unknown): Promise<CallOutcome> {
+  try {
+    return { value: await call() };
+  } catch (error) {
+    return { error };
+  }
+}
 
-  const lines = [`[Retry] Previous attempt failed (${diagnostic.type}):`];
-  lines.push(`  Message: ${diagnostic.message}`);
-  if (diagnostic.field) lines.push(`  Field: ${diagnostic.field}`);
-  if (diagnostic.suggestion) lines.push(`  Suggestion: ${diagnostic.suggestion}`);
-  if (diagnostic.rawOutput) {
-    lines.push(`  Raw output: ${diagnostic.rawOutput.slice(0, 200)}`);
+function fallbackError(error: unknown): Pick<AttemptFailure, 'diagnostic' | 'output'> {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ParseError) {
+    return {
+      diagnostic: createDiagnostic({
+        type: 'parse',
+        message,
+        rawOutput: error.rawOutput,
+        suggestion: `Return valid ${FORMAT_LABELS[error.format]}`,
+      }),
+      output: error.rawOutput,
+    };
   }
-  return lines.join('\n');
+  return {
+    diagnostic: createDiagnostic({
+      type: 'error',
+      message,
+      received: error instanceof Error ? error.name : typeof error,
+      suggestion: 'Fallback threw an error',
+    }),
+  };
 }
 
-function generateSuggestion(error: z.core.$ZodIssueBase): string {
-  const field = error.path.join('.') || 'value';
-
-  switch (error.code) {
-    case 'too_small':
-      return `Increase the length/value of '${field}'`;
-    case 'too_big':
-      return `Decrease the length/value of '${field}'`;
-    case 'invalid_type': {
-      const received = error.message.match(/received (\w+)/)?.[1];
-      const typed = error as z.core.$ZodIssueInvalidType;
-      return received
-        ? `'${field}' should be ${typed.expected}, got ${received}`
-        : `'${field}' should be ${typed.expected}`;
+async function runValidators(
+  validators: OutputValidator[],
+  output: unknown,
+  context: ValidatorContext,
+): Promise<DiagnosticIssue[]> {
+  const issues: DiagnosticIssue[] = [];
+  for (const validator of validators) {
+    const result = await validator(output, context);
+    if (!result) continue;
+    for (const issue of Array.isArray(result) ? result : [result]) {
+      issues.push(toDiagnosticIssue(issue));
     }
-    case 'invalid_value':
-      return `'${field}' must be one of: ${(error as z.core.$ZodIssueInvalidValue).values?.join(', ')}`;
-    default:
-      return `Fix '${field}': ${error.message}`;
   }
+  return issues;
+}
+
+function runValidatorsSync(
+  validators: SyncOutputValidator[],
+  output: unknown,
+  context: ValidatorContext,
+): DiagnosticIssue[] {
+  const issues: DiagnosticIssue[] = [];
+  for (const validator of validators) {
+    const result = validator(output, context);
+    if (!result) continue;
+    for (const issue of Array.isArray(result) ? result : [result]) {
+      issues.push(toDiagnosticIssue(issue));
+    }
+  }
+  return issues;
+}
+
+function toDiagnosticIssue(issue: ValidatorIssue): DiagnosticIssue {
+  const field = issue.field || 'root';
+  return {
+    field,
+    code: issue.code ?? 'custom',
+    expected: issue.message,
+    received: issue.received,
+    suggestion: issue.suggestion ?? `Fix '${field}': ${issue.message}`,
+  };
 }
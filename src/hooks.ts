@@ -0,0 +1,80 @@
+import type { RetryState } from './retry.js';
+import type { AttemptRecord, HandoffViolation } from './types.js';
+
+export interface AttemptStartEvent {
+  nodeName: string;
+  state: RetryState;
+}
+
+export interface AttemptEndEvent {
+  nodeName: string;
+  state: RetryState;
+  record: AttemptRecord;
+}
+
+export interface SuccessEvent extends AttemptEndEvent {
+  output: unknown;
+}
+
+export interface ViolationEvent {
+  nodeName: string;
+  violation: HandoffViolation;
+  /** State of the last attempt, or null when the input contract failed. */
+  state: RetryState | null;
+}
+
+export interface GuardHooks {
+  onAttemptStart?: (event: AttemptStartEvent) => void;
+  onAttemptEnd?: (event: AttemptEndEvent) => void;
+  onRetry?: (event: AttemptEndEvent) => void;
+  onSuccess?: (event: SuccessEvent) => void;
+  onViolation?: (event: ViolationEvent) => void;
+}
+
+type HookEvent<K extends keyof GuardHooks> = Parameters<NonNullable<GuardHooks[K]>>[0];
+
+const globalHooks = new Set<GuardHooks>();
+
+/**
+ * Register hooks that run for every guarded node. Returns a function that
+ * unregisters them.
+ */
+export function registerGuardHooks(hooks: GuardHooks): () => void {
+  globalHooks.add(hooks);
+  return () => {
+    globalHooks.delete(hooks);
+  };
+}
+
+/**
+ * Call `name` on the node's own hooks, then on every global registration.
+ * Hook errors, including rejections from async hooks, are swallowed:
+ * observability must not change a node's outcome. Async hooks are not awaited.
+ */
+export function emitHook<K extends keyof GuardHooks>(
+  local: GuardHooks | undefined,
+  name: K,
+  event: HookEvent<K>,
+): void {
+  const targets = local ? [local, ...globalHooks] : [...globalHooks];
+  for (const hooks of targets) {
+    const hook = hooks[name] as ((event: HookEvent<K>) => void) | undefined;
+    if (!hook) continue;
+    try {
+      const result: unknown = hook(event);
+      if (isThenable(result)) {
+        result.then(undefined, () => {});
+      }
+    } catch {
+      // Ignore
+    }
+  }
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === 'function'
+  );
+}
@@ -1,10 +1,135 @@
-export { guard, type GuardOptions, type GuardOnFailAction } from './guard.js';
+export {
+  guard,
+  guardSync,
+  type GuardOptions,
+  type GuardSyncOptions,
+  type GuardOnFailAction,
+  type FallbackStep,
+  type Implementations,
+  type ParsedGuardDecorator,
+  type InjectedGuardDecorator,
+  type InjectedGuardSyncDecorator,
+  type RetryInjection,
+  type CallerArgs,
+  type Guarded,
+} from './guard.js';
+export { guardNode, type GuardNodeOptions, type StateGraphNode } from './graph.js';
+export {
+  compareSchemas,
+  contractJsonSchema,
+  promptInstructions,
+  type ContractJsonSchema,
+  type GuardContract,
+  type SchemaMismatch,
+} from './contracts.js';
+export {
+  pipeline,
+  checkHandoff,
+  ContractMismatchError,
+  type Pipeline,
+  type PipelineNode,
+  type PipelineOptions,
+  type EdgeMismatch,
+} from './pipeline.js';
 export { retry, type RetryState } from './retry.js';
-export { parseJson, ParseError } from './utils.js';
+export type {
+  ChatMessage,
+  ChatMessageFormat,
+  OpenAIChatMessage,
+  AnthropicChatMessage,
+  FollowUp,
+  FollowUpOptions,
+} from './messages.js';
+export {
+  formatFeedback,
+  feedbackPresets,
+  schemaExcerpt,
+  type FeedbackContext,
+  type FeedbackFormatter,
+  type FeedbackPreset,
+} from './feedback.js';
+export {
+  registerGuardHooks,
+  type GuardHooks,
+  type AttemptStartEvent,
+  type AttemptEndEvent,
+  type SuccessEvent,
+  type ViolationEvent,
+} from './hooks.js';
+export {
+  computeBackoffDelay,
+  systemClock,
+  type BackoffOptions,
+  type BackoffStrategy,
+  type Clock,
+} from './backoff.js';
+export {
+  SpanStatusCode,
+  type GuardSpan,
+  type GuardTracer,
+  type TracingOptions,
+  type SpanAttributeValue,
+} from './tracing.js';
+export { parseJson, ParseError, type ParseJsonOptions } from './utils.js';
+export { repairJson, type JsonRepair, type RepairResult } from './repair.js';
+export {
+  parseYaml,
+  parseTagged,
+  parseKeyValue,
+  parseStructured,
+  detectFormat,
+  type StructuredFormat,
+  type ParseTaggedOptions,
+  type ParseStructuredOptions,
+} from './formats.js';
+export {
+  validateStream,
+  StreamValidationError,
+  type ValidateStreamOptions,
+} from './streaming.js';
+export {
+  findJsonCandidates,
+  type JsonCandidate,
+  type FindJsonOptions,
+} from './extract.js';
 export {
   HandoffViolation,
   type ViolationContext,
   type Diagnostic,
+  type DiagnosticIssue,
+  type HandoffEdge,
   type AttemptRecord,
+  type FallbackKind,
+  type OutputValidator,
+  type SyncOutputValidator,
+  type ValidatorContext,
+  type ValidatorIssue,
+  type ValidatorResult,
 } from './types.js';
-export { mockRetry } from './testing.js';
+export {
+  VIOLATION_WIRE_VERSION,
+  ViolationDictSchema,
+  AttemptRecordDictSchema,
+  DiagnosticSchema,
+  DiagnosticIssueSchema,
+  ViolationContextSchema,
+  HandoffEdgeSchema,
+  type ViolationDict,
+  type AttemptRecordDict,
+} from './wire.js';
+export {
+  mockRetry,
+  scriptedNode,
+  type ScriptedNode,
+  type ScriptedCall,
+  type ScriptedResponse,
+} from './testing.js';
+export {
+  FixtureRecorder,
+  loadFixtures,
+  replayFixture,
+  FIXTURE_VERSION,
+  type Fixture,
+  type FixtureAttempt,
+  type FixtureFile,
+} from './fixtures.js';
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import type { DiagnosticIssue } from './types.js';
+
+export function collectIssues(error: z.ZodError, data: unknown): DiagnosticIssue[] {
+  return error.issues.map((issue) => {
+    const value = valueAtPath(data, issue.path);
+    return {
+      field: issue.path.join('.') || 'root',
+      code: issue.code,
+      expected: issue.message,
+      received: value.found
+        ? (JSON.stringify(value.value)?.slice(0, 200) ?? 'undefined')
+        : 'undefined',
+      suggestion: generateSuggestion(issue),
+    };
+  });
+}
+
+function valueAtPath(
+  data: unknown,
+  path: PropertyKey[],
+): { found: boolean; value: unknown } {
+  let current = data;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object' || !(key in current)) {
+      return { found: false, value: undefined };
+    }
+    current = (current as Record<PropertyKey, unknown>)[key];
+  }
+  return { found: true, value: current };
+}
+
+export function generateSuggestion(error: z.core.$ZodIssueBase): string {
+  const field = error.path.join('.') || 'value';
+
+  switch (error.code) {
+    case 'too_small':
+      return `Increase the length/value of '${field}'`;
+    case 'too_big':
+      return `Decrease the length/value of '${field}'`;
+    case 'invalid_type': {
+      const received = error.message.match(/received (\w+)/)?.[1];
+      const typed = error as z.core.$ZodIssueInvalidType;
+      return received
+        ? `'${field}' should be ${typed.expected}, got ${received}`
+        : `'${field}' should be ${typed.expected}`;
+    }
+    case 'invalid_value':
+      return `'${field}' must be one of: ${(error as z.core.$ZodIssueInvalidValue).values?.join(', ')}`;
+    case 'unrecognized_keys':
+      return `Remove unexpected key(s): ${(error as z.core.$ZodIssueUnrecognizedKeys).keys.join(', ')}`;
+    default:
+      return `Fix '${field}': ${error.message}`;
+  }
+}
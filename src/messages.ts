@@ -0,0 +1,69 @@
+import type { Diagnostic } from './types.js';
+
+export type ChatMessageFormat = 'openai' | 'anthropic';
+
+/** An OpenAI-style chat message with string content. */
+export interface OpenAIChatMessage {
+  role: 'assistant' | 'user';
+  content: string;
+}
+
+/** An Anthropic-style message with text content blocks. */
+export interface AnthropicChatMessage {
+  role: 'assistant' | 'user';
+  content: { type: 'text'; text: string }[];
+}
+
+/** Any message already in the transcript; only `role` and `content` are read. */
+export interface ChatMessage {
+  role: string;
+  content?: unknown;
+}
+
+export interface FollowUpOptions {
+  /**
+   * The failed attempt's raw output. Defaults to the text recorded by parse
+   * and stream failures; without either, no assistant message is added.
+   */
+  rawOutput?: string;
+  /** Message shape to return. Defaults to `'openai'`. */
+  format?: ChatMessageFormat;
+}
+
+/**
+ * Build the messages to append to a chat transcript so a retry continues
+ * the conversation: the failed assistant reply, then a user message with the
+ * feedback. The assistant message is left out when there is no raw output to
+ * replay or the transcript already ends with one. Returns an empty list on
+ * the first attempt.
+ */
+export interface FollowUp {
+  (
+    messages: readonly ChatMessage[],
+    options: FollowUpOptions & { format: 'anthropic' },
+  ): AnthropicChatMessage[];
+  (messages?: readonly ChatMessage[], options?: FollowUpOptions): OpenAIChatMessage[];
+}
+
+export function createFollowUp(
+  diagnostic: Diagnostic | null,
+  feedback: () => string | null,
+): FollowUp {
+  return ((messages: readonly ChatMessage[] = [], options: FollowUpOptions = {}) => {
+    const text = diagnostic && feedback();
+    if (!diagnostic || !text) return [];
+
+    const toMessage = (role: 'assistant' | 'user', content: string) =>
+      options.format === 'anthropic'
+        ? { role, content: [{ type: 'text' as const, text: content }] }
+        : { role, content };
+
+    const pair = [];
+    const rawOutput = options.rawOutput ?? diagnostic.rawOutput;
+    if (rawOutput && messages[messages.length - 1]?.role !== 'assistant') {
+      pair.push(toMessage('assistant', rawOutput));
+    }
+    pair.push(toMessage('user', text));
+    return pair;
+  }) as FollowUp;
+}
@@ -0,0 +1,118 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { HandoffEdge } from './types.js';
+import { compareSchemas, type GuardContract } from './contracts.js';
+
+export type PipelineNode = ((input: any, ...rest: any[]) => unknown) & {
+  contract?: GuardContract;
+};
+
+export interface EdgeMismatch extends HandoffEdge {
+  reason: string;
+}
+
+/** Thrown at definition time when adjacent nodes' contracts do not line up. */
+export class ContractMismatchError extends Error {
+  readonly mismatches: EdgeMismatch[];
+
+  constructor(mismatches: EdgeMismatch[]) {
+    const first = mismatches[0];
+    super(
+      `Contract mismatch on '${first.from}' -> '${first.to}' at '${first.field}': ${first.reason}` +
+        (mismatches.length > 1 ? ` (and ${mismatches.length - 1} more)` : ''),
+    );
+    this.name = 'ContractMismatchError';
+    this.mismatches = mismatches;
+  }
+}
+
+export interface PipelineOptions {
+  /**
+   * Throw `ContractMismatchError` when adjacent contracts are incompatible.
+   * Defaults to true; when false the mismatches are only exposed on the
+   * pipeline.
+   */
+  strict?: boolean;
+}
+
+type FirstInput<N extends readonly PipelineNode[]> = N extends readonly [infer F, ...unknown[]]
+  ? F extends (input: infer I, ...rest: never[]) => unknown
+    ? I
+    : unknown
+  : unknown;
+
+type LastOutput<N extends readonly PipelineNode[]> = N extends readonly [...unknown[], infer L]
+  ? L extends (...args: never[]) => infer R
+    ? Awaited<R>
+    : unknown
+  : unknown;
+
+export interface Pipeline<TIn, TOut> {
+  (input: TIn): Promise<TOut>;
+  readonly nodes: readonly PipelineNode[];
+  readonly mismatches: EdgeMismatch[];
+}
+
+/** Statically compare `from`'s output contract with `to`'s input contract. */
+export function checkHandoff(from: PipelineNode, to: PipelineNode): EdgeMismatch[] {
+  const producer = from.contract?.output;
+  const consumer = to.contract?.input;
+  if (!producer || !consumer) return [];
+
+  const edge = { from: nodeNameOf(from), to: nodeNameOf(to) };
+  return compareSchemas(producer, consumer).map((mismatch) => ({ ...edge, ...mismatch }));
+}
+
+/**
+ * Chain guarded nodes so each node's output is the next node's input.
+ * Contracts are checked when the pipeline is defined. At runtime each
+ * handoff is validated by the consumer's own guard, so its `onFail`, hooks,
+ * tracing and `useParsed` apply; its input violation gets an `edge` naming
+ * both nodes and the field.
+ */
+export function pipeline<const N extends readonly PipelineNode[]>(
+  nodes: N,
+  options: PipelineOptions = {},
+): Pipeline<FirstInput<N>, LastOutput<N>> {
+  const { strict = true } = options;
+  if (nodes.length === 0) {
+    throw new Error('pipeline() needs at least one node');
+  }
+
+  const mismatches = nodes.slice(1).flatMap((node, i) => checkHandoff(nodes[i], node));
+  if (strict && mismatches.length > 0) {
+    throw new ContractMismatchError(mismatches);
+  }
+
+  const run = async (input: FirstInput<N>): Promise<LastOutput<N>> => {
+    let value: unknown = input;
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      const input = value;
+      value =
+        i === 0
+          ? await node(input)
+          : await handoffStorage.run({ from: nodeNameOf(nodes[i - 1]) }, () => node(input));
+    }
+    return value as LastOutput<N>;
+  };
+
+  return Object.assign(run, { nodes, mismatches });
+}
+
+const handoffStorage = new AsyncLocalStorage<{ from: string | undefined }>();
+
+/**
+ * The node whose output is being passed in, when `pipeline()` called the
+ * current guard. Only the first guard to ask gets it, so guards nested in
+ * the consumer do not report the pipeline's edge.
+ */
+export function takeHandoffSource(): string | undefined {
+  const store = handoffStorage.getStore();
+  const from = store?.from;
+  if (store) store.from = undefined;
+  return from;
+}
+
+function nodeNameOf(node: PipelineNode): string {
+  return node.contract?.nodeName ?? (node.name || 'anonymous');
+}
@@ -0,0 +1,201 @@
+export type JsonRepair =
+  | 'surroundingProse'
+  | 'comments'
+  | 'singleQuotes'
+  | 'unquotedKeys'
+  | 'trailingCommas'
+  | 'closeBrackets';
+
+export const ALL_JSON_REPAIRS: readonly JsonRepair[] = [
+  'surroundingProse',
+  'comments',
+  'singleQuotes',
+  'unquotedKeys',
+  'trailingCommas',
+  'closeBrackets',
+];
+
+export interface RepairResult {
+  text: string;
+  /** Repairs that actually changed the text, in the order listed above. */
+  repairs: JsonRepair[];
+}
+
+/**
+ * Fix the mistakes LLMs commonly make when writing JSON. The result is not
+ * guaranteed to parse; it is only guaranteed that each reported repair
+ * changed something.
+ */
+export function repairJson(
+  input: string,
+  enabled: readonly JsonRepair[] = ALL_JSON_REPAIRS,
+): RepairResult {
+  const applied = new Set<JsonRepair>();
+  const allow = (repair: JsonRepair) => enabled.includes(repair);
+
+  let text = input.trim();
+  if (allow('surroundingProse')) {
+    const stripped = stripSurroundingProse(text);
+    if (stripped !== text) {
+      applied.add('surroundingProse');
+      text = stripped;
+    }
+  }
+
+  let out = '';
+  const stack: string[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '"') {
+      const end = findStringEnd(text, i, '"');
+      out += text.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === "'" && allow('singleQuotes')) {
+      const end = findStringEnd(text, i, "'");
+      const closed = text[end - 1] === "'" && end - 1 > i;
+      const body = text.slice(i + 1, closed ? end - 1 : end);
+      out += `"${body.replace(/\\'/g, "'").replace(/(?<!\\)"/g, '\\"')}"`;
+      applied.add('singleQuotes');
+      i = end;
+      continue;
+    }
+
+    if (ch === '/' && allow('comments') && (text[i + 1] === '/' || text[i + 1] === '*')) {
+      if (text[i + 1] === '/') {
+        const newline = text.indexOf('\n', i);
+        i = newline === -1 ? text.length : newline;
+      } else {
+        const close = text.indexOf('*/', i + 2);
+        i = close === -1 ? text.length : close + 2;
+      }
+      applied.add('comments');
+      continue;
+    }
+
+    if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+      out += ch;
+      i++;
+      continue;
+    }
+
+    if (ch === '}' || ch === ']') {
+      if (stack[stack.length - 1] === ch) stack.pop();
+      out += ch;
+      i++;
+      continue;
+    }
+
+    if (ch === ',' && allow('trailingCommas') && isFollowedByCloser(text, i + 1)) {
+      applied.add('trailingCommas');
+      i++;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch) && allow('unquotedKeys')) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(text.slice(i))!;
+      const word = match[0];
+      const after = text.slice(i + word.length).trimStart();
+      if (after.startsWith(':') && stack[stack.length - 1] === '}') {
+        out += `"${word}"`;
+        applied.add('unquotedKeys');
+      } else {
+        out += word;
+      }
+      i += word.length;
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+
+  if (allow('closeBrackets') && (stack.length > 0 || endsInsideString(out))) {
+    if (endsInsideString(out)) out += '"';
+    out = out.trimEnd();
+    if (out.endsWith(',')) out = out.slice(0, -1);
+    if (out.endsWith(':')) out += 'null';
+    out += stack.reverse().join('');
+    applied.add('closeBrackets');
+  }
+
+  return {
+    text: out,
+    repairs: ALL_JSON_REPAIRS.filter((repair) => applied.has(repair)),
+  };
+}
+
+function stripSurroundingProse(text: string): string {
+  const start = text.search(/[{[]/);
+  if (start === -1) return text;
+  let result = text.slice(start);
+
+  const lastClose = Math.max(result.lastIndexOf('}'), result.lastIndexOf(']'));
+  if (lastClose !== -1) {
+    const tail = result.slice(lastClose + 1);
+    // Only trim tails that are clearly prose, not the rest of a cut-off
+    // object such as `, b: 2`
+    if (
+      tail.trim() &&
+      !/[{}[\]"]/.test(tail) &&
+      !/^\s*[,:]/.test(tail) &&
+      isBalanced(result.slice(0, lastClose + 1))
+    ) {
+      result = result.slice(0, lastClose + 1);
+    }
+  }
+  return result;
+}
+
+/** Whether every bracket opened in `text` (outside strings) is closed. */
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'") {
+      i = findStringEnd(text, i, ch) - 1;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      depth--;
+    }
+  }
+  return depth === 0;
+}
+
+/** Index just past the closing quote, or the end of text if unterminated. */
+function findStringEnd(text: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === quote) return i + 1;
+    i++;
+  }
+  return text.length;
+}
+
+function isFollowedByCloser(text: string, from: number): boolean {
+  const rest = text.slice(from).replace(/^(\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/, '');
+  return rest.startsWith('}') || rest.startsWith(']');
+}
+
+function endsInsideString(text: string): boolean {
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    if (inString && text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '"') inString = !inString;
+  }
+  return inString;
+}
@@ -1,5 +1,7 @@
 import { AsyncLocalStorage } from 'node:async_hooks';
 import type { Diagnostic, AttemptRecord } from './types.js';
+import type { FollowUp } from './messages.js';
+import type { JsonRepair } from './repair.js';
 
 export type { Diagnostic, AttemptRecord };
 
@@ -12,10 +14,18 @@ export interface RetryState {
   lastError: Diagnostic | null;
   history: AttemptRecord[];
   feedback: () => string | null;
+  /** Prompt instructions describing the guard's `output` schema, or null without one. */
+  instructions: () => string | null;
+  /** Messages to append to a chat transcript so the retry continues the conversation. */
+  followUp: FollowUp;
+  signal: AbortSignal;
 }
 
 const retryStorage = new AsyncLocalStorage<RetryState>();
 
+// Outside a guarded call (and in sync ones) there is nothing to cancel
+export const neverAborted: AbortSignal = new AbortController().signal;
+
 function getDefaultState(): RetryState {
   return {
     attempt: 1,
@@ -26,6 +36,9 @@ function getDefaultState(): RetryState {
     lastError: null,
     history: [],
     feedback: () => null,
+    instructions: () => null,
+    followUp: () => [],
+    signal: neverAborted,
   };
 }
 
@@ -40,6 +53,30 @@ export const retry: RetryState = new Proxy({} as RetryState, {
   },
 });
 
+/** The state of the guarded attempt running in this async context, if any. */
+export function currentRetryState(): RetryState | undefined {
+  return retryStorage.getStore();
+}
+
+const appliedRepairs = new WeakMap<RetryState, Set<JsonRepair>>();
+
+/** Note JSON repairs that made output parse, against the current attempt. */
+export function noteRepairs(repairs: JsonRepair[]): void {
+  const state = retryStorage.getStore();
+  if (!state || repairs.length === 0) return;
+  const noted = appliedRepairs.get(state) ?? new Set();
+  for (const repair of repairs) noted.add(repair);
+  appliedRepairs.set(state, noted);
+}
+
+/** The repairs noted during `state`'s attempt, clearing them. */
+export function takeRepairs(state: RetryState | null): JsonRepair[] {
+  if (!state) return [];
+  const noted = appliedRepairs.get(state);
+  appliedRepairs.delete(state);
+  return noted ? [...noted] : [];
+}
+
 export function runWithRetryState<T>(state: RetryState, fn: () => T): T {
   return retryStorage.run(state, fn);
 }
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { createDiagnostic, type Diagnostic, type DiagnosticIssue } from './types.js';
+import { ParseError, parseJson, type ParseJsonOptions } from './utils.js';
+import { collectIssues } from './issues.js';
+
+/**
+ * Thrown when a streamed output fails its schema, either early because a
+ * completed top-level field is invalid, or once the stream has ended.
+ * `guard()` treats it like a `'validation'` failure.
+ */
+export class StreamValidationError extends Error {
+  readonly diagnostic: Diagnostic;
+  readonly issues: DiagnosticIssue[];
+  /** The fields completed so far (early abort) or the full parsed value. */
+  readonly partial: unknown;
+  readonly rawOutput: string;
+
+  constructor(options: { issues: DiagnosticIssue[]; partial: unknown; rawOutput: string }) {
+    const firstIssue = options.issues[0];
+    super(`Streamed output failed validation at '${firstIssue.field}': ${firstIssue.expected}`);
+    this.name = 'StreamValidationError';
+    this.issues = options.issues;
+    this.partial = options.partial;
+    this.rawOutput = options.rawOutput;
+    this.diagnostic = createDiagnostic({
+      type: 'validation',
+      message: firstIssue.expected,
+      field: firstIssue.field,
+      expected: firstIssue.expected,
+      received: firstIssue.received,
+      suggestion: firstIssue.suggestion,
+      rawOutput: options.rawOutput,
+      issues: options.issues,
+    });
+  }
+}
+
+export interface ValidateStreamOptions extends Pick<ParseJsonOptions, 'repair'> {
+  /** Called as each top-level field of the streamed object completes and passes. */
+  onField?: (field: string, value: unknown) => void;
+}
+
+/**
+ * Consume a stream of text chunks holding a JSON object, validating each
+ * top-level field against `schema` as soon as it is complete. Stops reading
+ * at the first invalid field. Text around the object, such as prose or a
+ * code fence, is ignored. Resolves with the parsed value once the stream
+ * ends and the whole value passes; it is returned as parsed, not as the
+ * schema's output, so a guard with the same `output` schema and `useParsed`
+ * can apply its transforms to it.
+ */
+export async function validateStream<S extends z.ZodType>(
+  chunks: AsyncIterable<string>,
+  schema: S,
+  options: ValidateStreamOptions = {},
+): Promise<z.input<S>> {
+  const { onField, repair } = options;
+  const shape = schema instanceof z.ZodObject ? (schema.shape as Record<string, z.ZodType>) : null;
+  const scanner = new TopLevelFieldScanner();
+  const partial: Record<string, unknown> = {};
+
+  for await (const chunk of chunks) {
+    for (const field of scanner.push(chunk)) {
+      let value: unknown;
+      try {
+        value = parseJson(field.text, { repair });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Invalid JSON';
+        throw new ParseError(`Invalid value for '${field.key}': ${message}`, scanner.text);
+      }
+      partial[field.key] = value;
+
+      const fieldSchema = shape?.[field.key];
+      if (fieldSchema) {
+        const result = z.object({ [field.key]: fieldSchema }).safeParse({ [field.key]: value });
+        if (!result.success) {
+          throw new StreamValidationError({
+            issues: collectIssues(result.error, partial),
+            partial,
+            rawOutput: scanner.text,
+          });
+        }
+      }
+      onField?.(field.key, value);
+    }
+  }
+
+  let data: unknown;
+  try {
+    data = parseJson(scanner.objectText, { repair });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    throw new ParseError(message, scanner.text);
+  }
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new StreamValidationError({
+      issues: collectIssues(result.error, data),
+      partial: data,
+      rawOutput: scanner.text,
+    });
+  }
+  return data as z.input<S>;
+}
+
+interface CompletedField {
+  key: string;
+  text: string;
+}
+
+type Expecting = 'key' | 'keyString' | 'colon' | 'value' | 'valueBody' | 'afterValue';
+
+/**
+ * Tracks the top-level object of a JSON document as text arrives and
+ * reports each `key: value` pair once its value is complete.
+ */
+class TopLevelFieldScanner {
+  text = '';
+  private position = 0;
+  private started = false;
+  private depth = 0;
+  private inString = false;
+  private expecting: Expecting = 'key';
+  private key = '';
+  private tokenStart = 0;
+  private objectStart = -1;
+  private objectEnd = -1;
+
+  /** The streamed object without surrounding text, or all text if none started. */
+  get objectText(): string {
+    if (this.objectStart < 0) return this.text;
+    return this.text.slice(this.objectStart, this.objectEnd < 0 ? undefined : this.objectEnd);
+  }
+
+  push(chunk: string): CompletedField[] {
+    this.text += chunk;
+    const completed: CompletedField[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const i = this.position;
+      const ch = this.text[i];
+
+      if (!this.started) {
+        if (ch === '{') {
+          this.started = true;
+          this.depth = 1;
+          this.objectStart = i;
+        }
+        continue;
+      }
+
+      if (this.depth === 0) break;
+
+      if (this.inString) {
+        if (ch === '\\') {
+          this.position++;
+        } else if (ch === '"') {
+          this.inString = false;
+          if (this.depth === 1 && this.expecting === 'keyString') {
+            this.key = JSON.parse(this.text.slice(this.tokenStart, i + 1)) as string;
+            this.expecting = 'colon';
+          } else if (this.depth === 1 && this.expecting === 'valueBody') {
+            completed.push(this.complete(i + 1));
+          }
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+        if (this.depth === 1 && this.expecting === 'key') {
+          this.tokenStart = i;
+          this.expecting = 'keyString';
+        } else if (this.depth === 1 && this.expecting === 'value') {
+          this.tokenStart = i;
+          this.expecting = 'valueBody';
+        }
+      } else if (ch === ':' && this.depth === 1 && this.expecting === 'colon') {
+        this.expecting = 'value';
+      } else if (ch === '{' || ch === '[') {
+        if (this.depth === 1 && this.expecting === 'value') {
+          this.tokenStart = i;
+          this.expecting = 'valueBody';
+        }
+        this.depth++;
+      } else if (ch === '}' || ch === ']') {
+        this.depth--;
+        if (this.depth === 0) this.objectEnd = i + 1;
+        if (this.depth === 1 && this.expecting === 'valueBody') {
+          completed.push(this.complete(i + 1));
+        } else if (this.depth === 0 && this.expecting === 'valueBody') {
+          // Primitive value closed by the end of the object
+          completed.push(this.complete(i));
+        }
+      } else if (ch === ',' && this.depth === 1) {
+        if (this.expecting === 'valueBody') {
+          completed.push(this.complete(i));
+        }
+        this.expecting = 'key';
+      } else if (this.depth === 1 && this.expecting === 'value' && !/\s/.test(ch)) {
+        this.tokenStart = i;
+        this.expecting = 'valueBody';
+      }
+    }
+
+    return completed;
+  }
+
+  private complete(end: number): CompletedField {
+    this.expecting = 'afterValue';
+    return { key: this.key, text: this.text.slice(this.tokenStart, end).trim() };
+  }
+}
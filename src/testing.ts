@@ -1,38 +1,207 @@
-import { runWithRetryStateAsync, type RetryState } from './retry.js';
-import type { Diagnostic } from './types.js';
+import type { z } from 'zod';
+import { retry, runWithRetryStateAsync, type RetryState } from './retry.js';
+import { parseJson } from './utils.js';
+import { promptInstructions } from './contracts.js';
+import { createFollowUp } from './messages.js';
+import { resolveFeedbackFormatter, type FeedbackFormatter, type FeedbackPreset } from './feedback.js';
+import type { AttemptRecord, Diagnostic } from './types.js';
 
 interface MockRetryOptions {
   attempt?: number;
   maxAttempts?: number;
   lastError?: Diagnostic | null;
   feedbackText?: string;
+  /**
+   * Earlier attempts, as records or just their diagnostics. Sets the default
+   * `attempt` to the one after them and `lastError` to the last diagnostic.
+   */
+  history?: (AttemptRecord | Diagnostic)[];
+  /** How `feedback()` is rendered, as on `guard()`. */
+  feedback?: FeedbackPreset | FeedbackFormatter;
+  nodeName?: string;
+  /** Schema `retry.instructions()` describes. */
+  output?: z.ZodType;
+  signal?: AbortSignal;
+  /** Run `fn` once per attempt from 1 to `attempt`, each seeing the history before it. */
+  sequence?: boolean;
 }
 
+/**
+ * Run `fn` with `retry` set up as it would be on a given attempt of a
+ * guarded call, with feedback rendered by the same formatter `guard()` uses.
+ */
+export async function mockRetry<T>(
+  options: MockRetryOptions & { sequence: true },
+  fn: (state: RetryState) => Promise<T>,
+): Promise<T[]>;
+export async function mockRetry<T>(
+  options: MockRetryOptions,
+  fn: (state: RetryState) => Promise<T>,
+): Promise<T>;
 export async function mockRetry<T>(
   options: MockRetryOptions,
-  fn: () => Promise<T>,
-): Promise<T> {
-  const { attempt = 2, maxAttempts = 3, feedbackText } = options;
+  fn: (state: RetryState) => Promise<T>,
+): Promise<T | T[]> {
+  let history = (options.history ?? []).map(toAttemptRecord);
+  const attempt = options.attempt ?? (options.history ? history.length + 1 : 2);
+  const maxAttempts = options.maxAttempts ?? Math.max(3, attempt);
 
-  let lastError = options.lastError ?? null;
-  if (!lastError && feedbackText) {
+  let lastError = options.lastError ?? history[history.length - 1]?.diagnostic ?? null;
+  if (!lastError && options.feedbackText) {
     lastError = {
       type: 'validation',
-      message: feedbackText,
+      message: options.feedbackText,
     };
   }
+  if (!options.history && lastError && attempt > 1) {
+    history = [toAttemptRecord(lastError, attempt - 2)];
+  }
+
+  const stateFor = (current: number, before: AttemptRecord[], error: Diagnostic | null) =>
+    mockState(options, { attempt: current, maxAttempts, history: before, lastError: error });
+
+  if (!options.sequence) {
+    const state = stateFor(attempt, history, lastError);
+    return runWithRetryStateAsync(state, () => fn(state));
+  }
 
-  const state: RetryState = {
+  if (history.length < attempt - 1) {
+    throw new Error(`Sequence to attempt ${attempt} needs ${attempt - 1} history entries`);
+  }
+  const results: T[] = [];
+  for (let current = 1; current <= attempt; current++) {
+    const before = history.slice(0, current - 1);
+    const state = stateFor(current, before, before[before.length - 1]?.diagnostic ?? null);
+    results.push(await runWithRetryStateAsync(state, () => fn(state)));
+  }
+  return results;
+}
+
+function mockState(
+  options: MockRetryOptions,
+  current: {
+    attempt: number;
+    maxAttempts: number;
+    history: AttemptRecord[];
+    lastError: Diagnostic | null;
+  },
+): RetryState {
+  const { attempt, maxAttempts, history, lastError } = current;
+  const formatFeedback = resolveFeedbackFormatter(options.feedback);
+  const feedback = () =>
+    lastError
+      ? formatFeedback({
+          nodeName: options.nodeName ?? 'mock',
+          diagnostic: lastError,
+          history,
+          schema: options.output,
+        })
+      : null;
+
+  return {
     attempt,
     maxAttempts,
     remaining: maxAttempts - attempt,
     isRetry: attempt > 1,
     isFinalAttempt: attempt === maxAttempts,
     lastError,
-    history: [],
-    feedback: () =>
-      lastError ? `Mock feedback for: ${lastError.message}` : null,
+    history,
+    feedback,
+    instructions: () => (options.output ? promptInstructions(options.output) : null),
+    followUp: createFollowUp(lastError, feedback),
+    signal: options.signal ?? new AbortController().signal,
   };
+}
+
+function toAttemptRecord(entry: AttemptRecord | Diagnostic, index: number): AttemptRecord {
+  if ('attempt' in entry && 'diagnostic' in entry) return entry;
+  return {
+    attempt: index + 1,
+    timestamp: new Date(),
+    durationMs: 0,
+    delayMs: 0,
+    diagnostic: entry,
+  };
+}
+
+/**
+ * One scripted LLM response. Strings are parsed with `parseJson` (so
+ * malformed JSON raises a `ParseError`), `Error`s are thrown, and anything
+ * else is returned as-is.
+ */
+export type ScriptedResponse = string | Error | object | number | boolean | null;
+
+export interface ScriptedCall {
+  attempt: number;
+  feedback: string | null;
+  args: unknown[];
+}
+
+export interface ScriptedNode {
+  (...args: unknown[]): Promise<unknown>;
+  /** Every call the guard made, in order. */
+  readonly calls: ScriptedCall[];
+  /** What `retry.feedback()` returned on `attempt` of the most recent guarded call. */
+  feedbackAt(attempt: number): string | null | undefined;
+  /** Throw unless exactly `count` attempts ran. */
+  assertAttempts(count: number): void;
+  /**
+   * Throw unless the feedback seen on `attempt` contains `expected` (or
+   * matches it), or is null when `expected` is null.
+   */
+  assertFeedback(attempt: number, expected: string | RegExp | null): void;
+}
+
+/**
+ * A fake node that answers each call with the next response in `script`, to
+ * wrap with `guard()` when testing retry behavior.
+ */
+export function scriptedNode(script: ScriptedResponse[]): ScriptedNode {
+  const calls: ScriptedCall[] = [];
+  let runStart = 0;
+
+  const node = async (...args: unknown[]): Promise<unknown> => {
+    const index = calls.length;
+    if (retry.attempt === 1) runStart = index;
+    calls.push({ attempt: retry.attempt, feedback: retry.feedback(), args });
+    if (index >= script.length) {
+      throw new Error(`Script has no response for call ${index + 1}`);
+    }
+
+    const response = script[index];
+    if (response instanceof Error) throw response;
+    if (typeof response === 'string') return parseJson(response);
+    return response;
+  };
+
+  const lastRun = () => calls.slice(runStart);
+  const feedbackAt = (attempt: number) =>
+    lastRun().find((call) => call.attempt === attempt)?.feedback;
 
-  return runWithRetryStateAsync(state, fn);
+  return Object.assign(node, {
+    calls,
+    feedbackAt,
+    assertAttempts(count: number) {
+      const ran = lastRun().length;
+      if (ran !== count) {
+        throw new Error(`Expected ${count} attempt(s), but ${ran} ran`);
+      }
+    },
+    assertFeedback(attempt: number, expected: string | RegExp | null) {
+      const feedback = feedbackAt(attempt);
+      if (feedback === undefined) {
+        throw new Error(`Attempt ${attempt} did not run`);
+      }
+      const matches =
+        expected === null
+          ? feedback === null
+          : feedback !== null &&
+            (typeof expected === 'string' ? feedback.includes(expected) : expected.test(feedback));
+      if (!matches) {
+        throw new Error(
+          `Expected feedback on attempt ${attempt} to ${expected === null ? 'be null' : `match ${String(expected)}`}, got: ${feedback}`,
+        );
+      }
+    },
+  });
 }
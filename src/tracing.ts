@@ -0,0 +1,125 @@
+import type { AttemptRecord } from './types.js';
+
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * The subset of an OpenTelemetry `Span` used by guard. Real OTel spans satisfy
+ * it structurally, so `@opentelemetry/api` is not a dependency.
+ */
+export interface GuardSpan {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException?(exception: Error): unknown;
+  end(): void;
+}
+
+/** The subset of an OpenTelemetry `Tracer` used by guard. */
+export interface GuardTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, SpanAttributeValue> },
+    context?: unknown,
+  ): GuardSpan;
+}
+
+export interface TracingOptions {
+  tracer: GuardTracer;
+  /**
+   * Build the context that makes `span` the parent of attempt spans, e.g.
+   * `(span) => trace.setSpan(context.active(), span)`. Without it attempt
+   * spans are started with the tracer's default context.
+   */
+  contextWithSpan?: (span: GuardSpan) => unknown;
+}
+
+/** Mirrors OpenTelemetry's `SpanStatusCode`. */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+export type CallOutcome = 'success' | 'violation' | 'error';
+export type AttemptOutcome = 'success' | 'retry' | 'failed' | 'error';
+
+export interface AttemptTrace {
+  end(record: AttemptRecord | null, outcome: AttemptOutcome, error?: unknown): void;
+}
+
+export interface CallTrace {
+  startAttempt(attempt: number, maxAttempts: number): AttemptTrace;
+  end(outcome: CallOutcome, totalAttempts: number, error?: unknown): void;
+}
+
+export function startCallTrace(
+  options: TracingOptions | undefined,
+  nodeName: string,
+): CallTrace | undefined {
+  if (!options) return undefined;
+  const { tracer, contextWithSpan } = options;
+
+  const callSpan = tracer.startSpan(`guard:${nodeName}`, {
+    attributes: { 'handoff_guard.node': nodeName },
+  });
+  const parentContext = contextWithSpan?.(callSpan);
+
+  return {
+    startAttempt(attempt, maxAttempts) {
+      const span = tracer.startSpan(
+        `guard:${nodeName}:attempt`,
+        {
+          attributes: {
+            'handoff_guard.node': nodeName,
+            'handoff_guard.attempt': attempt,
+            'handoff_guard.max_attempts': maxAttempts,
+          },
+        },
+        parentContext,
+      );
+
+      return {
+        end(record, outcome, error) {
+          span.setAttribute('handoff_guard.outcome', outcome);
+          const diagnostic = record?.diagnostic;
+          if (diagnostic) {
+            span.setAttribute('handoff_guard.diagnostic.type', diagnostic.type);
+            if (diagnostic.field) {
+              span.setAttribute('handoff_guard.diagnostic.field', diagnostic.field);
+            }
+          }
+          if (record) {
+            span.setAttribute('handoff_guard.delay_ms', record.delayMs);
+          }
+          const message =
+            diagnostic?.message ?? (error instanceof Error ? error.message : undefined);
+          setOutcomeStatus(span, outcome === 'success', message, error);
+          span.end();
+        },
+      };
+    },
+
+    end(outcome, totalAttempts, error) {
+      callSpan.setAttribute('handoff_guard.outcome', outcome);
+      callSpan.setAttribute('handoff_guard.total_attempts', totalAttempts);
+      const message = error instanceof Error ? error.message : undefined;
+      setOutcomeStatus(callSpan, outcome === 'success', message, error);
+      callSpan.end();
+    },
+  };
+}
+
+function setOutcomeStatus(
+  span: GuardSpan,
+  ok: boolean,
+  message: string | undefined,
+  error: unknown,
+): void {
+  if (ok) {
+    span.setStatus({ code: SpanStatusCode.OK });
+    return;
+  }
+  if (error instanceof Error) {
+    span.recordException?.(error);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
@@ -1,3 +1,12 @@
+import { z } from 'zod';
+import type { RetryState } from './retry.js';
+import type { JsonRepair } from './repair.js';
+import {
+  ViolationDictSchema,
+  VIOLATION_WIRE_VERSION,
+  type ViolationDict,
+} from './wire.js';
+
 export interface ViolationContext {
   nodeName: string;
   contractType: 'input' | 'output';
@@ -6,23 +15,77 @@ export interface ViolationContext {
   received: string;
   receivedType: string;
   suggestion: string;
+  issues?: DiagnosticIssue[];
+  /** Set when the violation happened on a handoff between two pipeline nodes. */
+  edge?: HandoffEdge;
+}
+
+export interface HandoffEdge {
+  from: string;
+  to: string;
+  field: string;
+}
+
+export interface DiagnosticIssue {
+  field: string;
+  code: string;
+  expected: string;
+  received?: string;
+  suggestion: string;
+}
+
+export interface ValidatorIssue {
+  message: string;
+  field?: string;
+  code?: string;
+  received?: string;
+  suggestion?: string;
+}
+
+export interface ValidatorContext {
+  input: unknown;
+  state: RetryState;
 }
 
+export type ValidatorResult = ValidatorIssue | ValidatorIssue[] | null | undefined | void;
+
+export type OutputValidator = (
+  output: unknown,
+  context: ValidatorContext,
+) => ValidatorResult | Promise<ValidatorResult>;
+
+export type SyncOutputValidator = (
+  output: unknown,
+  context: ValidatorContext,
+) => ValidatorResult;
+
 export interface AttemptRecord {
   attempt: number;
   timestamp: Date;
   durationMs: number;
+  delayMs: number;
   diagnostic: Diagnostic | null;
+  /** Which implementation ran, when the guard was given several. */
+  implementation?: string;
+  /** Set when the record is an `onFail` fallback step rather than a guarded attempt. */
+  fallback?: FallbackKind;
+  /** JSON repairs `parseJson` applied to make this attempt's output parse. */
+  repairs?: JsonRepair[];
 }
 
+export type FallbackKind = 'retryWith' | 'default' | 'repair';
+
 export interface Diagnostic {
-  type: 'validation' | 'parse';
+  type: 'validation' | 'parse' | 'error' | 'timeout';
   message: string;
   field?: string;
   expected?: string;
   received?: string;
   suggestion?: string;
   rawOutput?: string;
+  issues?: DiagnosticIssue[];
+  /** JSON repairs attempted before a parse failure was reported. */
+  repairs?: JsonRepair[];
 }
 
 export function createDiagnostic(data: Diagnostic): Diagnostic {
@@ -38,29 +101,61 @@ export class HandoffViolation extends Error {
   readonly context: ViolationContext;
   readonly totalAttempts: number;
   readonly history: AttemptRecord[];
+  readonly issues: DiagnosticIssue[];
+  readonly edge?: HandoffEdge;
 
-  constructor(options: { context: ViolationContext; history?: AttemptRecord[] }) {
+  /**
+   * `cause` is the error the last attempt threw, e.g. once `retryOnError`
+   * retries run out. It is not part of `toDict()`.
+   */
+  constructor(options: { context: ViolationContext; history?: AttemptRecord[]; cause?: unknown }) {
     super(
       `Validation failed at '${options.context.nodeName}': ${options.context.expected}`,
+      options.cause === undefined ? undefined : { cause: options.cause },
     );
     this.name = 'HandoffViolation';
     this.nodeName = options.context.nodeName;
     this.fieldPath = options.context.fieldPath;
     this.context = options.context;
     this.history = options.history ?? [];
+    this.issues = options.context.issues ?? [];
+    this.edge = options.context.edge;
     this.totalAttempts = this.history.length || 1;
   }
 
-  toDict(): Record<string, unknown> {
+  toDict(): ViolationDict {
     return {
+      version: VIOLATION_WIRE_VERSION,
       nodeName: this.nodeName,
       fieldPath: this.fieldPath,
       context: this.context,
       totalAttempts: this.totalAttempts,
+      issues: this.issues,
+      edge: this.edge,
       history: this.history.map((record) => ({
         ...record,
         timestamp: record.timestamp.toISOString(),
       })),
     };
   }
+
+  toJSON(): ViolationDict {
+    return this.toDict();
+  }
+
+  /**
+   * Rebuild a violation from `toDict()` output (or its JSON), e.g. one
+   * raised in a worker. Throws when the dict does not match the wire format.
+   */
+  static fromDict(dict: unknown): HandoffViolation {
+    const result = ViolationDictSchema.safeParse(dict);
+    if (!result.success) {
+      throw new Error(`Invalid HandoffViolation dict:\n${z.prettifyError(result.error)}`);
+    }
+    const { context, history } = result.data;
+    return new HandoffViolation({
+      context,
+      history: history.map((record) => ({ ...record, timestamp: new Date(record.timestamp) })),
+    });
+  }
 }
@@ -1,14 +1,60 @@
+import { ALL_JSON_REPAIRS, repairJson, type JsonRepair } from './repair.js';
+import { findJsonCandidates, type JsonCandidate } from './extract.js';
+import { noteRepairs } from './retry.js';
+import type { StructuredFormat } from './formats.js';
+
 export class ParseError extends Error {
   readonly rawOutput: string;
+  readonly repairs: JsonRepair[];
+  /** Character offset in `rawOutput` of the extracted text that failed to parse. */
+  readonly offset?: number;
+  /** Format the output was expected to be in. */
+  readonly format: StructuredFormat;
 
-  constructor(message: string, rawOutput: string = '') {
+  constructor(
+    message: string,
+    rawOutput: string = '',
+    details: { repairs?: JsonRepair[]; offset?: number; format?: StructuredFormat } = {},
+  ) {
     super(message);
     this.name = 'ParseError';
     this.rawOutput = rawOutput;
+    this.repairs = details.repairs ?? [];
+    this.offset = details.offset;
+    this.format = details.format ?? 'json';
   }
 }
 
-export function parseJson<T = unknown>(input: unknown): T {
+export interface ParseJsonOptions {
+  /**
+   * Try to fix common LLM JSON mistakes when strict parsing fails. `true`
+   * enables every repair; a list enables only those.
+   */
+  repair?: boolean | JsonRepair[];
+  /**
+   * Find JSON embedded in surrounding prose or fenced blocks instead of
+   * requiring the whole text to be JSON. `'all'` returns an array of every
+   * value found.
+   */
+  extract?: 'first' | 'last' | 'all';
+  /** With `extract`, only use fenced blocks tagged with this language. */
+  fenceLanguage?: string;
+  /**
+   * Called with the repairs that made the text parse. Inside a guarded
+   * attempt they are also noted on its `AttemptRecord.repairs`.
+   */
+  onRepair?: (repairs: JsonRepair[]) => void;
+}
+
+export function parseJson<T = unknown>(
+  input: unknown,
+  options: ParseJsonOptions & { extract: 'all' },
+): T[];
+export function parseJson<T = unknown>(input: unknown, options?: ParseJsonOptions): T;
+export function parseJson<T = unknown>(
+  input: unknown,
+  options: ParseJsonOptions = {},
+): T | T[] {
   if (typeof input !== 'string') {
     throw new ParseError(
       `Expected string, got ${typeof input}`,
@@ -23,6 +69,11 @@ export function parseJson<T = unknown>(input: unknown): T {
     text = text.slice(1);
   }
 
+  if (options.extract) {
+    const bomOffset = input.length - text.length;
+    return extractJson<T>(input, text, bomOffset, options);
+  }
+
   // Strip markdown code fences
   const stripped = text.trim();
   if (stripped.startsWith('```')) {
@@ -36,10 +87,81 @@ export function parseJson<T = unknown>(input: unknown): T {
     text = stripped;
   }
 
+  return parseText<T>(text, input, options);
+}
+
+function parseText<T>(
+  text: string,
+  rawOutput: string,
+  options: ParseJsonOptions,
+  offset?: number,
+): T {
   try {
     return JSON.parse(text) as T;
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Invalid JSON';
-    throw new ParseError(message, input);
+    if (!options.repair) {
+      throw new ParseError(message, rawOutput, { offset });
+    }
+
+    const enabled = options.repair === true ? ALL_JSON_REPAIRS : options.repair;
+    const repaired = repairJson(text, enabled);
+    let value: T;
+    try {
+      value = JSON.parse(repaired.text) as T;
+    } catch {
+      throw new ParseError(message, rawOutput, { repairs: repaired.repairs, offset });
+    }
+    noteRepairs(repaired.repairs);
+    options.onRepair?.(repaired.repairs);
+    return value;
+  }
+}
+
+function extractJson<T>(
+  input: string,
+  text: string,
+  bomOffset: number,
+  options: ParseJsonOptions,
+): T | T[] {
+  const candidates = findJsonCandidates(text, { fenceLanguage: options.fenceLanguage });
+  if (candidates.length === 0) {
+    const where = options.fenceLanguage
+      ? `\`\`\`${options.fenceLanguage} block`
+      : 'JSON object or array';
+    throw new ParseError(`No ${where} found in output`, input);
+  }
+
+  const { values, firstError } = parseCandidates<T>(input, candidates, bomOffset, options);
+
+  // Fenced blocks may all be code in another language; fall back to the prose
+  if (values.length === 0 && options.fenceLanguage === undefined && text.includes('```')) {
+    const prose = findJsonCandidates(text, { outsideFences: true });
+    values.push(...parseCandidates<T>(input, prose, bomOffset, options).values);
+  }
+
+  if (values.length === 0) throw firstError!;
+  return options.extract === 'all' ? values : values[0];
+}
+
+function parseCandidates<T>(
+  input: string,
+  candidates: JsonCandidate[],
+  bomOffset: number,
+  options: ParseJsonOptions,
+): { values: T[]; firstError: ParseError | null } {
+  const ordered = options.extract === 'last' ? [...candidates].reverse() : candidates;
+  const values: T[] = [];
+  let firstError: ParseError | null = null;
+  for (const candidate of ordered) {
+    try {
+      const offset = candidate.offset + bomOffset;
+      values.push(parseText<T>(candidate.text, input, options, offset));
+    } catch (error) {
+      firstError ??= error as ParseError;
+      continue;
+    }
+    if (options.extract !== 'all') break;
   }
+  return { values, firstError };
 }
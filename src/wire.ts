@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { ALL_JSON_REPAIRS } from './repair.js';
+
+/**
+ * Version of the `HandoffViolation.toDict()` format. Bump it on any change
+ * that an older `fromDict()` could not read.
+ */
+export const VIOLATION_WIRE_VERSION = 1;
+
+export const DiagnosticIssueSchema = z.object({
+  field: z.string(),
+  code: z.string(),
+  expected: z.string(),
+  received: z.string().optional(),
+  suggestion: z.string(),
+});
+
+export const DiagnosticSchema = z.object({
+  type: z.enum(['validation', 'parse', 'error', 'timeout']),
+  message: z.string(),
+  field: z.string().optional(),
+  expected: z.string().optional(),
+  received: z.string().optional(),
+  suggestion: z.string().optional(),
+  rawOutput: z.string().optional(),
+  issues: z.array(DiagnosticIssueSchema).optional(),
+  repairs: z.array(z.enum(ALL_JSON_REPAIRS)).optional(),
+});
+
+export const HandoffEdgeSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  field: z.string(),
+});
+
+export const ViolationContextSchema = z.object({
+  nodeName: z.string(),
+  contractType: z.enum(['input', 'output']),
+  fieldPath: z.string(),
+  expected: z.string(),
+  received: z.string(),
+  receivedType: z.string(),
+  suggestion: z.string(),
+  issues: z.array(DiagnosticIssueSchema).optional(),
+  edge: HandoffEdgeSchema.optional(),
+});
+
+/**
+ * An `AttemptRecord` on the wire: `timestamp` is an ISO 8601 string.
+ * `delayMs` is missing from 0.2.0 dicts, which had no backoff.
+ */
+export const AttemptRecordDictSchema = z.object({
+  attempt: z.number().int(),
+  timestamp: z.iso.datetime(),
+  durationMs: z.number(),
+  delayMs: z.number().default(0),
+  diagnostic: DiagnosticSchema.nullable(),
+  implementation: z.string().optional(),
+  fallback: z.enum(['retryWith', 'default', 'repair']).optional(),
+  repairs: z.array(z.enum(ALL_JSON_REPAIRS)).optional(),
+});
+
+/**
+ * The output of `HandoffViolation.toDict()`. Dicts from before the format
+ * was versioned (0.2.0) have no `version`, `issues` or `history[].delayMs`
+ * and are read as version 1 with those defaulted.
+ */
+export const ViolationDictSchema = z.object({
+  version: z.literal(VIOLATION_WIRE_VERSION).default(VIOLATION_WIRE_VERSION),
+  nodeName: z.string(),
+  fieldPath: z.string(),
+  context: ViolationContextSchema,
+  totalAttempts: z.number().int(),
+  issues: z.array(DiagnosticIssueSchema).default([]),
+  edge: HandoffEdgeSchema.optional(),
+  history: z.array(AttemptRecordDictSchema),
+});
+
+export type AttemptRecordDict = z.input<typeof AttemptRecordDictSchema>;
+export type ViolationDict = z.input<typeof ViolationDictSchema>;
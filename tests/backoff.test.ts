@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import {
+  guard,
+  computeBackoffDelay,
+  HandoffViolation,
+  type Clock,
+} from '../src/index';
+
+const SimpleOutput = z.object({
+  result: z.string(),
+  score: z.number(),
+});
+
+function fakeClock(): Clock & { sleeps: number[] } {
+  let now = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  };
+}
+
+describe('computeBackoffDelay', () => {
+  it('should return a constant delay for fixed strategy', () => {
+    const options = { strategy: 'fixed' as const, initialDelayMs: 50 };
+    expect(computeBackoffDelay(options, 1, 0)).toBe(50);
+    expect(computeBackoffDelay(options, 4, 50)).toBe(50);
+  });
+
+  it('should grow exponentially and respect maxDelayMs', () => {
+    const options = { initialDelayMs: 100, factor: 2, maxDelayMs: 500 };
+    expect(computeBackoffDelay(options, 1, 0)).toBe(100);
+    expect(computeBackoffDelay(options, 2, 100)).toBe(200);
+    expect(computeBackoffDelay(options, 3, 200)).toBe(400);
+    expect(computeBackoffDelay(options, 4, 400)).toBe(500);
+  });
+
+  it('should draw decorrelated jitter between base and 3x previous delay', () => {
+    const low = { strategy: 'decorrelated' as const, initialDelayMs: 100, random: () => 0 };
+    const high = { ...low, random: () => 1 };
+    expect(computeBackoffDelay(low, 2, 300)).toBe(100);
+    expect(computeBackoffDelay(high, 2, 300)).toBe(900);
+    expect(computeBackoffDelay({ ...high, maxDelayMs: 600 }, 2, 300)).toBe(600);
+  });
+});
+
+describe('guard backoff', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not delay without backoff options', async () => {
+    const clock = fakeClock();
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 3,
+      clock,
+    })(async (state: any) => {
+      return { result: 'bad' } as any;
+    });
+
+    await expect(myFunc({ x: 1 })).rejects.toThrow(HandoffViolation);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it('should sleep between attempts and record delayMs', async () => {
+    const clock = fakeClock();
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 3,
+      backoff: { initialDelayMs: 10 },
+      clock,
+    })(async (state: any) => {
+      return { result: 'bad' } as any;
+    });
+
+    try {
+      await myFunc({ x: 1 });
+      expect.unreachable();
+    } catch (e) {
+      const exc = e as HandoffViolation;
+      expect(clock.sleeps).toEqual([10, 20]);
+      expect(exc.history.map((record) => record.delayMs)).toEqual([0, 10, 20]);
+    }
+  });
+
+  it('should work with fake timers using the default clock', async () => {
+    vi.useFakeTimers();
+    let callCount = 0;
+
+    const myFunc = guard<[{ x: number }], { result: string; score: number }>({
+      output: SimpleOutput,
+      maxAttempts: 2,
+      backoff: { strategy: 'fixed', initialDelayMs: 1000 },
+    })(async (state: any) => {
+      callCount++;
+      if (callCount === 1) {
+        return { result: 'bad' } as any;
+      }
+      return { result: 'ok', score: 1 };
+    });
+
+    const pending = myFunc({ x: 1 });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(callCount).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toEqual({ result: 'ok', score: 1 });
+    expect(callCount).toBe(2);
+  });
+});
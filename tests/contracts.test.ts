@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { compareSchemas, contractJsonSchema, guard, promptInstructions, retry } from '../src/index';
+
+describe('compareSchemas', () => {
+  it('should accept a producer that satisfies the consumer', () => {
+    const producer = z.object({ topic: z.string(), depth: z.number().int(), extra: z.boolean() });
+    const consumer = z.object({ topic: z.string(), depth: z.number(), note: z.string().optional() });
+    expect(compareSchemas(producer, consumer)).toEqual([]);
+  });
+
+  it('should report missing, optional and mistyped fields', () => {
+    const producer = z.object({
+      topic: z.number(),
+      sources: z.array(z.object({ url: z.string().optional() })),
+      draft: z.string().optional(),
+    });
+    const consumer = z.object({
+      topic: z.string(),
+      sources: z.array(z.object({ url: z.string() })),
+      draft: z.string(),
+      outline: z.array(z.string()),
+    });
+    expect(compareSchemas(producer, consumer)).toEqual([
+      { field: 'draft', reason: 'required but optional in output' },
+      { field: 'outline', reason: 'required but not produced' },
+      { field: 'topic', reason: 'expected string, got number' },
+      { field: 'sources[].url', reason: 'required but optional in output' },
+    ]);
+  });
+
+  it('should report produced keys a strict consumer does not declare', () => {
+    const producer = z.object({
+      topic: z.string(),
+      extra: z.string(),
+      meta: z.object({ id: z.string() }),
+    });
+    const consumer = z.strictObject({ topic: z.string(), meta: z.strictObject({}) });
+    expect(compareSchemas(producer, consumer)).toEqual([
+      { field: 'extra', reason: 'produced but not accepted by strict input' },
+      { field: 'meta.id', reason: 'produced but not accepted by strict input' },
+    ]);
+    expect(compareSchemas(producer, z.object({ topic: z.string(), meta: z.object({}) }))).toEqual(
+      [],
+    );
+  });
+
+  it('should compare enums', () => {
+    const consumer = z.object({ tone: z.enum(['calm', 'formal']) });
+    expect(compareSchemas(z.object({ tone: z.enum(['calm']) }), consumer)).toEqual([]);
+    expect(compareSchemas(z.object({ tone: z.enum(['calm', 'angry']) }), consumer)).toEqual([
+      { field: 'tone', reason: 'expected one of calm, formal, got angry' },
+    ]);
+    expect(compareSchemas(z.object({ tone: z.string() }), consumer)).toHaveLength(1);
+  });
+
+  it('should treat transformed outputs as compatible', () => {
+    const producer = z.object({ count: z.string().transform((value) => value.length) });
+    expect(compareSchemas(producer, z.object({ count: z.number() }))).toEqual([]);
+  });
+});
+
+describe('contract rendering', () => {
+  const Output = z.object({
+    title: z.string().min(3).describe('A short headline'),
+    score: z.number().int().max(10).optional(),
+    tone: z.enum(['calm', 'formal']),
+    tags: z.array(z.object({ name: z.string() })).min(1),
+    note: z.string().nullable(),
+  });
+
+  it('should render a prompt instruction block', () => {
+    expect(promptInstructions(Output)).toBe(
+      [
+        'Respond with a JSON object with these fields:',
+        '- title (string): at least 3 characters. A short headline',
+        '- score (integer, optional): <= 10',
+        '- tone (one of "calm", "formal")',
+        '- tags (array of objects): at least 1 items',
+        '  - name (string)',
+        '- note (string or null)',
+      ].join('\n'),
+    );
+    expect(promptInstructions(z.array(z.string()))).toBe('Respond with JSON: array of string');
+  });
+
+  it('should render a guarded contract as JSON Schema', () => {
+    const writer = guard({ input: z.object({ topic: z.string() }), output: Output, nodeName: 'writer' })(
+      async (state: any) => state,
+    );
+    const schemas = contractJsonSchema(writer.contract);
+    expect(schemas.nodeName).toBe('writer');
+    expect(schemas.input).toEqual({
+      type: 'object',
+      properties: { topic: { type: 'string' } },
+      required: ['topic'],
+    });
+    expect(schemas.output).toMatchObject({ required: ['title', 'tone', 'tags', 'note'] });
+  });
+
+  it('should expose the instructions on RetryState', async () => {
+    const seen: (string | null)[] = [];
+    const writer = guard({ output: Output })(async (state: any) => {
+      seen.push(retry.instructions());
+      return { title: 'Otters', tone: 'calm', tags: [{ name: 'x' }], note: null };
+    });
+    const plain = guard({})(async (state: any) => retry.instructions());
+
+    await writer({});
+    expect(seen[0]).toBe(promptInstructions(Output));
+    expect(await plain({})).toBeNull();
+  });
+});
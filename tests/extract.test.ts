@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { findJsonCandidates, parseJson } from '../src/index';
+
+describe('findJsonCandidates', () => {
+  it('should find balanced objects and arrays in prose', () => {
+    const text = 'Here is the result: {"a": {"b": "}"}} and also [1, 2]. Thanks!';
+    expect(findJsonCandidates(text)).toEqual([
+      { text: '{"a": {"b": "}"}}', offset: 20 },
+      { text: '[1, 2]', offset: 47 },
+    ]);
+  });
+
+  it('should skip unbalanced regions', () => {
+    expect(findJsonCandidates('oops { not closed')).toEqual([]);
+  });
+
+  it('should prefer fenced blocks when present', () => {
+    const text = 'Plan {x}\n```json\n{"a": 1}\n```\nthen\n```\n[2]\n```';
+    const candidates = findJsonCandidates(text);
+    expect(candidates.map((c) => c.text)).toEqual(['{"a": 1}', '[2]']);
+    expect(text.slice(candidates[0].offset, candidates[0].offset + 8)).toBe('{"a": 1}');
+  });
+
+  it('should filter fenced blocks by language tag', () => {
+    const text = '```python\nprint(1)\n```\n```JSON\n{"a": 1}\n```';
+    expect(findJsonCandidates(text, { fenceLanguage: 'json' }).map((c) => c.text)).toEqual([
+      '{"a": 1}',
+    ]);
+    expect(findJsonCandidates(text, { fenceLanguage: 'yaml' })).toEqual([]);
+  });
+
+  it('should fall back to prose JSON when no fenced block parses', () => {
+    const text = '```python\nprint(1)\n```\nResult: {"a":1}';
+    expect(parseJson(text, { extract: 'first' })).toEqual({ a: 1 });
+    expect(parseJson(text, { extract: 'all' })).toEqual([{ a: 1 }]);
+  });
+});
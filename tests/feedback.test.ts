@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { guard, retry, schemaExcerpt, type FeedbackFormatter } from '../src/index';
+
+const Output = z.object({
+  title: z.string().min(3),
+  score: z.number().int().max(10),
+  tags: z.array(z.object({ name: z.string() })),
+});
+
+function collectFeedback(options: Parameters<typeof guard>[0], outputs: unknown[]) {
+  const feedback: (string | null)[] = [];
+  const myFunc = guard({ output: Output, maxAttempts: outputs.length, ...options })(
+    async (state: any) => {
+      feedback.push(retry.feedback());
+      return outputs[retry.attempt - 1];
+    },
+  );
+  return { myFunc, feedback };
+}
+
+const valid = { title: 'Fine', score: 1, tags: [] };
+
+describe('feedback formatting', () => {
+  it('should keep the default block', async () => {
+    const { myFunc, feedback } = collectFeedback({}, [{ ...valid, score: 'x' }, valid]);
+    await myFunc({});
+    expect(feedback[0]).toBeNull();
+    expect(feedback[1]).toContain('[Retry] Previous attempt failed (validation):');
+    expect(feedback[1]).toContain('Field: score');
+  });
+
+  it('should render terse feedback on one line', async () => {
+    const { myFunc, feedback } = collectFeedback({ feedback: 'terse' }, [
+      { title: 'x', score: 11, tags: [] },
+      valid,
+    ]);
+    await myFunc({});
+    expect(feedback[1]).toMatch(/^Previous attempt failed\. Fix: title: .+; score: .+$/);
+  });
+
+  it('should include schema excerpts in verbose feedback', async () => {
+    const { myFunc, feedback } = collectFeedback({ feedback: 'verbose' }, [
+      { ...valid, tags: [{ name: 1 }] },
+      valid,
+    ]);
+    await myFunc({});
+    expect(feedback[1]).toContain('Schema for tags.0.name: {"type":"string"}');
+  });
+
+  it('should render structured JSON feedback', async () => {
+    const { myFunc, feedback } = collectFeedback({ feedback: 'json' }, [
+      { ...valid, score: 1.5 },
+      valid,
+    ]);
+    await myFunc({});
+    const parsed = JSON.parse(feedback[1]!);
+    expect(parsed.error).toBe('validation');
+    expect(parsed.issues[0].field).toBe('score');
+    expect(parsed.issues[0].schema).toMatchObject({ type: 'integer', maximum: 10 });
+  });
+
+  it('should list every failed attempt cumulatively', async () => {
+    const { myFunc, feedback } = collectFeedback({ feedback: 'cumulative' }, [
+      { ...valid, score: 'x' },
+      { ...valid, title: 'x' },
+      valid,
+    ]);
+    await myFunc({});
+    expect(feedback[2]).toContain('2 previous attempt(s) failed');
+    expect(feedback[2]).toContain('Attempt 1 (validation): score:');
+    expect(feedback[2]).toContain('Attempt 2 (validation): title:');
+  });
+
+  it('should accept a custom formatter', async () => {
+    const formatter: FeedbackFormatter = ({ nodeName, diagnostic, history }) =>
+      `${nodeName} #${history.length}: ${diagnostic.field}`;
+    const { myFunc, feedback } = collectFeedback({ feedback: formatter, nodeName: 'writer' }, [
+      { ...valid, score: 'x' },
+      valid,
+    ]);
+    await myFunc({});
+    expect(feedback[1]).toBe('writer #1: score');
+  });
+});
+
+describe('schemaExcerpt', () => {
+  it('should find nested fields and array items', () => {
+    expect(schemaExcerpt(Output, 'tags.0')).toMatchObject({ type: 'object' });
+    expect(schemaExcerpt(Output, 'title')).toEqual({ type: 'string', minLength: 3 });
+    expect(schemaExcerpt(Output, 'missing')).toBeUndefined();
+  });
+});
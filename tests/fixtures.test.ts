@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import {
+  guard,
+  retry,
+  parseJson,
+  FixtureRecorder,
+  loadFixtures,
+  replayFixture,
+  HandoffViolation,
+} from '../src/index';
+
+const Output = z.object({ title: z.string(), score: z.number() });
+
+const replies = ['not json', '{"title": "Otters"}', '{"title": "Otters", "score": 2}'];
+
+let dir: string | undefined;
+
+afterEach(async () => {
+  if (dir) await rm(dir, { recursive: true, force: true });
+  dir = undefined;
+});
+
+describe('fixtures', () => {
+  it('should record every attempt of a live call', async () => {
+    const recorder = new FixtureRecorder();
+    const writer = guard({ output: Output, maxAttempts: 3, nodeName: 'writer', hooks: recorder.hooks })(
+      recorder.wrap(async (state: any) => parseJson(replies[retry.attempt - 1])),
+    );
+
+    await writer({});
+
+    expect(recorder.fixtures).toHaveLength(1);
+    const [fixture] = recorder.fixtures;
+    expect(fixture.nodeName).toBe('writer');
+    expect(fixture.attempts.map((entry) => entry.attempt)).toEqual([1, 2, 3]);
+    expect(fixture.attempts[0].error).toMatchObject({ name: 'ParseError', rawOutput: 'not json' });
+    expect(fixture.attempts[0].diagnostic?.type).toBe('parse');
+    expect(fixture.attempts[1].output).toEqual({ title: 'Otters' });
+    expect(fixture.attempts[1].diagnostic?.field).toBe('score');
+    expect(fixture.attempts[2].diagnostic).toBeNull();
+  });
+
+  it('should replay a saved fixture through guard()', async () => {
+    const recorder = new FixtureRecorder();
+    const live = guard({ output: Output, maxAttempts: 3, hooks: recorder.hooks })(
+      recorder.wrap(async (state: any) => parseJson(replies[retry.attempt - 1])),
+    );
+    await live({});
+
+    dir = await mkdtemp(join(tmpdir(), 'handoff-guard-'));
+    const path = join(dir, 'writer.json');
+    await recorder.save(path);
+    const [fixture] = await loadFixtures(path);
+
+    const feedback: (string | null)[] = [];
+    const replayed = guard({
+      output: Output,
+      maxAttempts: 3,
+      hooks: { onAttemptStart: ({ state }) => feedback.push(state.feedback()) },
+    })(replayFixture(fixture));
+
+    expect(await replayed({})).toEqual({ title: 'Otters', score: 2 });
+    expect(feedback[1]).toContain('(parse)');
+    expect(feedback[2]).toContain('Field: score');
+  });
+
+  it('should keep concurrent calls apart', async () => {
+    const recorder = new FixtureRecorder();
+    const writer = guard({ output: Output, maxAttempts: 2, onFail: 'returnNull', hooks: recorder.hooks })(
+      recorder.wrap(async (state: any) => {
+        await new Promise((resolve) => setTimeout(resolve, state.delay));
+        return { title: state.title };
+      }),
+    );
+
+    await Promise.all([writer({ title: 'a', delay: 5 }), writer({ title: 'b', delay: 1 })]);
+
+    expect(recorder.fixtures).toHaveLength(2);
+    for (const fixture of recorder.fixtures) {
+      const titles = fixture.attempts.map((entry) => (entry.output as { title: string }).title);
+      expect(new Set(titles).size).toBe(1);
+      expect(titles).toHaveLength(2);
+    }
+  });
+
+  it('should restore error properties so retryOnError decides the same way', async () => {
+    const recorder = new FixtureRecorder();
+    const options = {
+      output: Output,
+      maxAttempts: 2,
+      retryOnError: (error: unknown) => (error as { status?: number }).status === 429,
+    };
+    const live = guard({ ...options, hooks: recorder.hooks })(
+      recorder.wrap(async (state: any) => {
+        if (retry.attempt === 1) throw Object.assign(new Error('rate'), { status: 429 });
+        return { title: 'Otters', score: 1 };
+      }),
+    );
+    expect(await live({})).toEqual({ title: 'Otters', score: 1 });
+
+    const [fixture] = JSON.parse(JSON.stringify(recorder.toJSON())).fixtures;
+    expect(fixture.attempts[0].error).toEqual({
+      name: 'Error',
+      message: 'rate',
+      properties: { status: 429 },
+    });
+    const replayed = guard(options)(replayFixture(fixture));
+    expect(await replayed({})).toEqual({ title: 'Otters', score: 1 });
+  });
+
+  it('should replay a timed-out attempt as a timeout', async () => {
+    const recorder = new FixtureRecorder();
+    const options = { output: Output, maxAttempts: 2, attemptTimeoutMs: 20 };
+    const live = guard({ ...options, hooks: recorder.hooks })(
+      recorder.wrap(async (state: any) => {
+        if (retry.attempt === 1) await new Promise((resolve) => setTimeout(resolve, 60));
+        return { title: `attempt ${retry.attempt}`, score: 1 };
+      }),
+    );
+    expect(await live({})).toEqual({ title: 'attempt 2', score: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    const [fixture] = recorder.fixtures;
+    expect(fixture.attempts[0].output).toBeUndefined();
+    expect(fixture.attempts[0].error?.name).toBe('AttemptTimeoutError');
+
+    const types: (string | undefined)[] = [];
+    const replayed = guard({
+      ...options,
+      hooks: { onAttemptEnd: ({ record }) => types.push(record.diagnostic?.type) },
+    })(replayFixture(fixture));
+    expect(await replayed({})).toEqual({ title: 'attempt 2', score: 1 });
+    expect(types).toEqual(['timeout', undefined]);
+  });
+
+  it('should fail when the replay runs out of attempts', async () => {
+    const replayed = guard({ output: Output, maxAttempts: 2, retryOnError: () => true })(
+      replayFixture({
+        nodeName: 'writer',
+        attempts: [{ attempt: 1, output: { title: 'x' }, diagnostic: null }],
+      }),
+    );
+
+    try {
+      await replayed({});
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(HandoffViolation);
+      expect((e as HandoffViolation).history[1].diagnostic?.message).toBe(
+        "Fixture for 'writer' has no attempt 2",
+      );
+    }
+  });
+});
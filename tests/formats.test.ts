@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  guard,
+  retry,
+  parseYaml,
+  parseTagged,
+  parseKeyValue,
+  parseStructured,
+  detectFormat,
+  ParseError,
+} from '../src/index';
+
+describe('parseYaml', () => {
+  it('should parse YAML, stripping code fences', () => {
+    const text = '```yaml\ntitle: Draft\ntags:\n  - a\n  - b\n```';
+    expect(parseYaml(text)).toEqual({ title: 'Draft', tags: ['a', 'b'] });
+  });
+
+  it('should throw ParseError with rawOutput and format', () => {
+    const text = 'title: [unclosed';
+    try {
+      parseYaml(text);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ParseError);
+      expect((e as ParseError).rawOutput).toBe(text);
+      expect((e as ParseError).format).toBe('yaml');
+    }
+  });
+
+  it('should throw ParseError when the document is a bare scalar', () => {
+    expect(() => parseYaml('I could not produce the data.')).toThrow(
+      'Expected a YAML mapping or sequence',
+    );
+    expect(parseYaml('- a\n- b')).toEqual(['a', 'b']);
+  });
+});
+
+describe('parseTagged', () => {
+  const text = 'Thinking...\n<reasoning>because</reasoning>\n<answer>\n{"score": 3}\n</answer>';
+
+  it('should return every tagged section', () => {
+    expect(parseTagged(text)).toEqual({ reasoning: 'because', answer: '{"score": 3}' });
+  });
+
+  it('should return one tag, optionally parsed', () => {
+    expect(parseTagged(text, 'reasoning')).toBe('because');
+    expect(parseTagged(text, 'answer', { format: 'json' })).toEqual({ score: 3 });
+    expect(parseTagged('<out><answer>x</answer></out>', 'answer')).toBe('x');
+  });
+
+  it('should report the full output when the tag content fails to parse', () => {
+    const output = 'Notes first.\n<answer> {"score": 3,} </answer>';
+    try {
+      parseTagged(output, 'answer', { format: 'json' });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ParseError);
+      expect((e as ParseError).rawOutput).toBe(output);
+      expect((e as ParseError).format).toBe('json');
+    }
+    expect(() => parseTagged('<answer>three</answer>', 'answer', { format: 'yaml' })).toThrow(
+      ParseError,
+    );
+  });
+
+  it('should throw ParseError when the tag is missing', () => {
+    expect(() => parseTagged(text, 'summary')).toThrow('Missing <summary> section');
+    expect(() => parseTagged('plain text')).toThrow(ParseError);
+  });
+});
+
+describe('parseKeyValue', () => {
+  it('should parse key: value and key = value lines', () => {
+    expect(parseKeyValue('Title: A: B\n- tone = calm\n\nnoise')).toEqual({
+      Title: 'A: B',
+      tone: 'calm',
+    });
+  });
+});
+
+describe('parseStructured', () => {
+  it('should detect the format', () => {
+    expect(detectFormat('{"a": 1}')).toBe('json');
+    expect(detectFormat('```yml\na: 1\n```')).toBe('yaml');
+    expect(detectFormat('<answer>1</answer>')).toBe('tagged');
+    expect(detectFormat('a: 1')).toBe('yaml');
+    expect(detectFormat('# draft\n- a\n- b: 2\n  c: 3')).toBe('yaml');
+    expect(detectFormat('Sorry, I cannot help with that.')).toBe('json');
+    expect(detectFormat('Here is the answer: {"a": 1}')).toBe('json');
+  });
+
+  it('should throw ParseError for prose instead of returning it as YAML', () => {
+    expect(() => parseStructured('Sorry, I cannot help with that.')).toThrow(ParseError);
+    expect(parseStructured('Here is the answer: {"a": 1}', { extract: 'first' })).toEqual({ a: 1 });
+  });
+
+  it('should parse each detected format', () => {
+    expect(parseStructured('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseStructured('a: 1\nb: two')).toEqual({ a: 1, b: 'two' });
+    expect(parseStructured('<a>1</a><b>2</b>')).toEqual({ a: '1', b: '2' });
+    expect(parseStructured('<answer>{"a": 1}</answer>', { tag: 'answer' })).toEqual({ a: 1 });
+    expect(parseStructured('a = 1', { format: 'keyValue' })).toEqual({ a: '1' });
+  });
+
+  it('should return tag content as text unless it looks like JSON or YAML', () => {
+    expect(parseStructured('<answer>42 is the answer</answer>', { tag: 'answer' })).toBe(
+      '42 is the answer',
+    );
+    expect(parseStructured('<answer>a: 1\nb: [2]</answer>', { tag: 'answer' })).toEqual({
+      a: 1,
+      b: [2],
+    });
+    expect(
+      parseStructured('<answer>Result: {"a": 1}</answer>', { tag: 'answer', extract: 'first' }),
+    ).toEqual({ a: 1 });
+  });
+
+  it('should report the full output when tag content fails to parse', () => {
+    const output = 'Thinking.\n<answer>{"a": 1,}</answer>';
+    try {
+      parseStructured(output, { format: 'tagged', tag: 'answer' });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ParseError);
+      expect((e as ParseError).rawOutput).toBe(output);
+    }
+    expect(parseStructured(output, { tag: 'answer', repair: true })).toEqual({ a: 1 });
+  });
+
+  it('should pass JSON options through', () => {
+    expect(parseStructured('{"a": 1,}', { format: 'json', repair: true })).toEqual({ a: 1 });
+  });
+});
+
+describe('guard with structured parsers', () => {
+  it('should retry YAML parse errors with a YAML suggestion', async () => {
+    const outputs = ['title: [oops', 'title: Fixed'];
+    let feedbackText: string | null = null;
+
+    const myFunc = guard({
+      output: z.object({ title: z.string() }),
+      maxAttempts: 2,
+    })(async (state: any) => {
+      feedbackText = retry.feedback();
+      return parseYaml(outputs[retry.attempt - 1]);
+    });
+
+    expect(await myFunc({})).toEqual({ title: 'Fixed' });
+    expect(feedbackText).toContain('(parse)');
+    expect(feedbackText).toContain('Suggestion: Return valid YAML');
+  });
+});
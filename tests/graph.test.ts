@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { guardNode, retry, HandoffViolation, type RetryState } from '../src/index';
+
+const State = z.object({
+  prompt: z.string(),
+  draft: z.string(),
+  wordCount: z.number(),
+  reviewed: z.boolean(),
+});
+type State = z.infer<typeof State>;
+
+describe('guardNode', () => {
+  it('should validate only the state slice the node reads', async () => {
+    const writer = guardNode<Partial<State>>({
+      input: State,
+      output: State,
+      reads: ['prompt'],
+      writes: ['draft', 'wordCount'],
+    })(async (state) => ({ draft: `on ${state.prompt}`, wordCount: 2 }));
+
+    expect(await writer({ prompt: 'otters' })).toEqual({ draft: 'on otters', wordCount: 2 });
+    await expect(writer({ draft: 'x' })).rejects.toThrow(HandoffViolation);
+  });
+
+  it('should accept an update writing only some owned keys', async () => {
+    const writer = guardNode({ output: State, writes: ['draft', 'wordCount'] })(async () => ({
+      draft: 'ok',
+    }));
+
+    expect(await writer({})).toEqual({ draft: 'ok' });
+  });
+
+  it('should type state as unknown values without an explicit type', async () => {
+    const reader = guardNode({})(async (state) => {
+      // @ts-expect-error state values are unknown
+      state.prompt.length;
+      return {};
+    });
+
+    await expect(reader({ prompt: 'x' })).resolves.toEqual({});
+  });
+
+  it('should reject writes to keys the node does not own', async () => {
+    const writer = guardNode({ output: State, writes: ['draft'], nodeName: 'writer' })(
+      async () => ({ draft: 'ok', reviewed: true }),
+    );
+
+    try {
+      await writer({});
+      expect.unreachable();
+    } catch (e) {
+      const violation = e as HandoffViolation;
+      expect(violation.nodeName).toBe('writer');
+      expect(violation.context.issues?.[0].code).toBe('unrecognized_keys');
+      expect(violation.context.suggestion).toBe('Remove unexpected key(s): reviewed');
+    }
+  });
+
+  it('should pass config through and inject RetryState separately', async () => {
+    const seen: { config: unknown; state: RetryState }[] = [];
+    const writer = guardNode<State, { thread: string }>({
+      output: z.object({ draft: z.string() }),
+      maxAttempts: 2,
+    })(async (_state, config, state) => {
+      seen.push({ config, state });
+      expect(retry.attempt).toBe(state.attempt);
+      return state.isRetry ? { draft: 'ok' } : { draft: 42 as unknown as string };
+    });
+
+    const config = { thread: 't-1' };
+    expect(await writer({} as State, config)).toEqual({ draft: 'ok' });
+    expect(seen.map((call) => call.config)).toEqual([config, config]);
+    expect(seen[1].state.lastError?.field).toBe('draft');
+  });
+
+  it('should call retryWith fallbacks like the node', async () => {
+    const writer = guardNode<State, { thread: string }>({
+      output: z.object({ draft: z.string() }),
+      onFail: [{ retryWith: async (state: State, config: { thread: string }) => ({ draft: config.thread }) }],
+    })(async () => ({ draft: 1 }) as any);
+
+    expect(await writer({} as State, { thread: 't-2' })).toEqual({ draft: 't-2' });
+  });
+
+  it('should expose the narrowed contract', () => {
+    const node = guardNode({ input: State, reads: ['prompt'], nodeName: 'n' })(async () => ({}));
+    expect(Object.keys((node.contract.input as z.ZodObject).shape)).toEqual(['prompt']);
+    expect(() => guardNode({ output: State, writes: ['missing'] })).toThrow(
+      'Unknown state keys: missing',
+    );
+  });
+});
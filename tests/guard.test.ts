@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import { z } from 'zod';
-import { guard, HandoffViolation } from '../src/index';
+import {
+  guard,
+  guardSync,
+  retry,
+  ParseError,
+  HandoffViolation,
+  type RetryState,
+} from '../src/index';
 
 const SimpleInput = z.object({
   name: z.string(),
@@ -245,4 +252,192 @@ describe('guard decorator', () => {
       expect(d).toHaveProperty('fieldPath');
     }
   });
+
+  it('should report every input issue in the violation', async () => {
+    const myFunc = guard({
+      input: SimpleInput,
+    })(async (state: any) => {
+      return state;
+    });
+
+    try {
+      await myFunc({ name: 1, value: 'x' } as any);
+      expect.unreachable();
+    } catch (e) {
+      const v = e as HandoffViolation;
+      expect(v.issues.map((issue) => issue.field)).toEqual(['name', 'value']);
+      expect(v.context.issues).toHaveLength(2);
+      expect(v.issues[0].code).toBe('invalid_type');
+      expect(v.issues[0].received).toBe('1');
+      expect(v.toDict().issues).toHaveLength(2);
+    }
+  });
+
+  it('should pass parsed input and return parsed output with useParsed', async () => {
+    const Input = z.object({ name: z.string().trim(), tags: z.array(z.string()).default([]) });
+    const Output = z.object({
+      count: z.coerce.number(),
+      label: z.string().transform((value) => value.toUpperCase()),
+    });
+
+    const myFunc = guard({
+      input: Input,
+      output: Output,
+      useParsed: true,
+    })(async (state) => {
+      return { count: String(state.tags.length), label: state.name };
+    });
+
+    const result = await myFunc({ name: '  hello  ' });
+    expect(result).toEqual({ count: 0, label: 'HELLO' });
+  });
+
+  it('should replace inputParam with parsed input when useParsed is set', async () => {
+    let seen: unknown;
+
+    const myFunc = guard({
+      input: z.object({ value: z.coerce.number() }),
+      inputParam: 'state',
+      useParsed: true,
+    })(async (opts: any) => {
+      seen = opts.state;
+      return opts.state;
+    });
+
+    await myFunc({ state: { value: '3' } });
+    expect(seen).toEqual({ value: 3 });
+  });
+
+  it('should return the raw output by default', async () => {
+    const myFunc = guard({
+      output: z.object({ count: z.coerce.number() }),
+    })(async (state: any) => {
+      return { count: '5' };
+    });
+
+    expect(await myFunc({})).toEqual({ count: '5' });
+  });
+});
+
+describe('injectRetry', () => {
+  it('should append RetryState after the caller arguments', async () => {
+    const myFunc = guard({ injectRetry: 'append', maxAttempts: 2 })(
+      async (name: string, count: number, state: RetryState) => `${name}${count}:${state.maxAttempts}`,
+    );
+
+    expect(await myFunc('a', 1)).toBe('a1:2');
+  });
+
+  it('should inject RetryState at a fixed index', async () => {
+    const seen: unknown[] = [];
+    const myFunc = guard({ injectRetry: { index: 2 } })(
+      async (name: string, suffix?: string, state?: RetryState) => {
+        seen.push(suffix, state!.attempt);
+        return name;
+      },
+    );
+
+    await myFunc('a');
+    await myFunc('a', '!');
+    expect(seen).toEqual([undefined, 1, '!', 1]);
+  });
+
+  it('should append RetryState after skipped optional parameters', async () => {
+    const myFunc = guard({ injectRetry: 'append' })(
+      async (count: number, label?: string, state?: RetryState) => [label, state?.attempt],
+    );
+
+    expect(await myFunc(1)).toEqual([undefined, 1]);
+    expect(await myFunc(1, 'x')).toEqual(['x', 1]);
+  });
+
+  it('should insert RetryState at the index without dropping later arguments', async () => {
+    const myFunc = guard({ injectRetry: { index: 1 } })(
+      async (count: number, state: RetryState, ...labels: string[]) =>
+        `${count}:${state.attempt}:${labels.join(',')}`,
+    );
+
+    expect(await myFunc(1, 'x', 'y')).toBe('1:1:x,y');
+    expect(await myFunc(1)).toBe('1:1:');
+  });
+
+  it('should inject RetryState as a property of the first argument', async () => {
+    const myFunc = guard({ injectRetry: 'property' })(
+      async (opts: { name: string; retry: RetryState }) => `${opts.name}:${opts.retry.attempt}`,
+    );
+
+    expect(await myFunc({ name: 'a' })).toBe('a:1');
+  });
+
+  it('should not pass RetryState with none', async () => {
+    const myFunc = guard({ injectRetry: 'none' })(async (...args: unknown[]) => args.length);
+
+    expect(await myFunc(1, undefined)).toBe(2);
+    expect(await myFunc()).toBe(0);
+  });
+
+  it('should support guardSync', () => {
+    const transform = guardSync({ injectRetry: { index: 1 } })(
+      (name: string, state: RetryState) => `${name}:${state.maxAttempts}`,
+    );
+
+    expect(transform('a')).toBe('a:1');
+  });
+});
+
+describe('guardSync', () => {
+  it('should validate input and output synchronously', () => {
+    const transform = guardSync<[{ name: string; value: number }], { result: string; processed: boolean }>({
+      input: SimpleInput,
+      output: SimpleOutput,
+    })((state) => ({ result: state.name.toUpperCase(), processed: true }));
+
+    expect(transform({ name: 'abc', value: 1 })).toEqual({ result: 'ABC', processed: true });
+    expect(() => transform({ name: 'abc' } as any)).toThrow(HandoffViolation);
+  });
+
+  it('should retry with feedback and record history', () => {
+    const feedback: (string | null)[] = [];
+
+    const transform = guardSync({
+      output: SimpleOutput,
+      maxAttempts: 3,
+    })((state: any) => {
+      feedback.push(retry.feedback());
+      if (retry.attempt === 1) throw new ParseError('bad json', 'nope');
+      if (retry.attempt === 2) return { result: 'ok' };
+      return { result: 'ok', processed: true };
+    });
+
+    expect(transform({})).toEqual({ result: 'ok', processed: true });
+    expect(feedback[0]).toBeNull();
+    expect(feedback[1]).toContain('(parse)');
+    expect(feedback[2]).toContain('Field: processed');
+  });
+
+  it('should apply onFail and sync validators', () => {
+    const transform = guardSync({
+      output: SimpleOutput,
+      maxAttempts: 2,
+      onFail: 'return_none',
+      validate: [(output: any) => (output.processed ? null : { message: 'must be processed' })],
+    })((state: any) => ({ result: 'ok', processed: false }));
+
+    expect(transform({})).toBeNull();
+  });
+
+  it('should raise HandoffViolation with history after exhaustion', () => {
+    const transform = guardSync({
+      output: SimpleOutput,
+      maxAttempts: 2,
+    })((state: any) => ({ result: 'ok' }));
+
+    try {
+      transform({});
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(HandoffViolation);
+      expect((e as HandoffViolation).totalAttempts).toBe(2);
+    }
+  });
 });
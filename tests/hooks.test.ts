@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  guard,
+  registerGuardHooks,
+  HandoffViolation,
+  type GuardHooks,
+} from '../src/index';
+
+const SimpleOutput = z.object({
+  result: z.string(),
+  score: z.number(),
+});
+
+function recordingHooks(events: string[]): GuardHooks {
+  return {
+    onAttemptStart: ({ nodeName, state }) =>
+      events.push(`start:${nodeName}:${state.attempt}`),
+    onAttemptEnd: ({ record }) =>
+      events.push(`end:${record.attempt}:${record.diagnostic?.type ?? 'ok'}`),
+    onRetry: ({ record }) => events.push(`retry:${record.attempt}`),
+    onSuccess: ({ output }) => events.push(`success:${JSON.stringify(output)}`),
+    onViolation: ({ violation, state }) =>
+      events.push(`violation:${violation.fieldPath}:${state?.attempt ?? 'input'}`),
+  };
+}
+
+describe('guard hooks', () => {
+  it('should call hooks in order for a retried success', async () => {
+    const events: string[] = [];
+    let callCount = 0;
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      nodeName: 'writer',
+      maxAttempts: 2,
+      hooks: recordingHooks(events),
+    })(async (state: any) => {
+      callCount++;
+      return callCount === 1 ? { result: 'bad' } : { result: 'ok', score: 1 };
+    });
+
+    await myFunc({ x: 1 });
+    expect(events).toEqual([
+      'start:writer:1',
+      'end:1:validation',
+      'retry:1',
+      'start:writer:2',
+      'end:2:ok',
+      'success:{"result":"ok","score":1}',
+    ]);
+  });
+
+  it('should call onViolation for exhausted retries and input failures', async () => {
+    const events: string[] = [];
+
+    const myFunc = guard({
+      input: z.object({ x: z.number() }),
+      output: SimpleOutput,
+      maxAttempts: 2,
+      hooks: recordingHooks(events),
+    })(async (state: any) => {
+      return { result: 'bad' } as any;
+    });
+
+    await expect(myFunc({ x: 1 })).rejects.toThrow(HandoffViolation);
+    expect(events.at(-1)).toBe('violation:score:2');
+    expect(events).not.toContain('retry:2');
+
+    await expect(myFunc({ x: 'no' } as any)).rejects.toThrow(HandoffViolation);
+    expect(events.at(-1)).toBe('violation:x:input');
+  });
+
+  it('should end the attempt before rethrowing an unretried error', async () => {
+    const events: string[] = [];
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      nodeName: 'fetcher',
+      maxAttempts: 3,
+      hooks: recordingHooks(events),
+    })(async (state: any) => {
+      throw new TypeError('network down');
+    });
+
+    await expect(myFunc({ x: 1 })).rejects.toThrow('network down');
+    expect(events).toEqual(['start:fetcher:1', 'end:1:error']);
+  });
+
+  it('should report fallback attempts and end with the chain result', async () => {
+    const events: string[] = [];
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      nodeName: 'writer',
+      hooks: recordingHooks(events),
+      onFail: [
+        { retryWith: async (state: any) => ({ result: 'still bad' }) },
+        { default: { result: 'fallback', score: 0 } },
+      ],
+    })(async (state: any) => {
+      return { result: 'bad' } as any;
+    });
+
+    expect(await myFunc({ x: 1 })).toEqual({ result: 'fallback', score: 0 });
+    expect(events).toEqual([
+      'start:writer:1',
+      'end:1:validation',
+      'start:writer:2',
+      'end:2:validation',
+      'success:{"result":"fallback","score":0}',
+    ]);
+
+    events.length = 0;
+    const failing = guard({
+      output: SimpleOutput,
+      nodeName: 'writer',
+      hooks: recordingHooks(events),
+      onFail: [{ retryWith: async (state: any) => ({ result: 'still bad' }) }],
+    })(async (state: any) => {
+      return { result: 'bad' } as any;
+    });
+
+    await expect(failing({ x: 1 })).rejects.toThrow(HandoffViolation);
+    expect(events.slice(-2)).toEqual(['end:2:validation', 'violation:score:2']);
+  });
+
+  it('should call global hooks until unregistered', async () => {
+    const events: string[] = [];
+    const unregister = registerGuardHooks(recordingHooks(events));
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      nodeName: 'global',
+    })(async (state: any) => {
+      return { result: 'ok', score: 1 };
+    });
+
+    try {
+      await myFunc({ x: 1 });
+      expect(events[0]).toBe('start:global:1');
+    } finally {
+      unregister();
+    }
+
+    events.length = 0;
+    await myFunc({ x: 1 });
+    expect(events).toEqual([]);
+  });
+
+  it('should ignore errors thrown by hooks', async () => {
+    const myFunc = guard({
+      output: SimpleOutput,
+      hooks: {
+        onSuccess: () => {
+          throw new Error('broken logger');
+        },
+      },
+    })(async (state: any) => {
+      return { result: 'ok', score: 1 };
+    });
+
+    await expect(myFunc({ x: 1 })).resolves.toEqual({ result: 'ok', score: 1 });
+  });
+
+  it('should swallow rejections from async hooks', async () => {
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+
+    try {
+      const myFunc = guard({
+        output: SimpleOutput,
+        hooks: {
+          onSuccess: async () => {
+            throw new Error('broken async logger');
+          },
+        },
+      })(async (state: any) => {
+        return { result: 'ok', score: 1 };
+      });
+
+      await expect(myFunc({ x: 1 })).resolves.toEqual({ result: 'ok', score: 1 });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(unhandled).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { guard, retry, parseJson, mockRetry } from '../src/index';
+
+const Output = z.object({ title: z.string(), score: z.number() });
+
+describe('retry.followUp', () => {
+  it('should continue the conversation with the failed reply and feedback', async () => {
+    const transcripts: unknown[][] = [];
+    const replies = ['{"title": "Otters"', '{"title": "Otters", "score": 1}'];
+
+    const writer = guard({ output: Output, maxAttempts: 2 })(async (state: any) => {
+      const messages = [
+        { role: 'system', content: 'Write JSON.' },
+        { role: 'user', content: state.prompt },
+        ...retry.followUp([]),
+      ];
+      transcripts.push(messages);
+      return parseJson(replies[retry.attempt - 1]);
+    });
+
+    expect(await writer({ prompt: 'otters' })).toEqual({ title: 'Otters', score: 1 });
+    expect(transcripts[0]).toHaveLength(2);
+    expect(transcripts[1].slice(2)).toEqual([
+      { role: 'assistant', content: '{"title": "Otters"' },
+      { role: 'user', content: expect.stringContaining('Previous attempt failed (parse)') },
+    ]);
+  });
+
+  it('should use the given raw output and Anthropic content blocks', async () => {
+    const messages = await mockRetry({ feedbackText: 'score is missing' }, async () =>
+      retry.followUp([{ role: 'user', content: 'Write JSON.' }], {
+        rawOutput: '{"title": "x"}',
+        format: 'anthropic',
+      }),
+    );
+
+    expect(messages).toEqual([
+      { role: 'assistant', content: [{ type: 'text', text: '{"title": "x"}' }] },
+      { role: 'user', content: [{ type: 'text', text: expect.stringContaining('score is missing') }] },
+    ]);
+  });
+
+  it('should not repeat an assistant reply already in the transcript', async () => {
+    const messages = await mockRetry({ feedbackText: 'score is missing' }, async () =>
+      retry.followUp([
+        { role: 'user', content: 'Write JSON.' },
+        { role: 'assistant', content: '{"title": "x"}' },
+      ]),
+    );
+
+    expect(messages).toEqual([
+      { role: 'user', content: expect.stringContaining('Message: score is missing') },
+    ]);
+  });
+
+  it('should only send feedback when the failure left no raw output', async () => {
+    const followUps: unknown[][] = [];
+    const failures = [
+      () => new Promise((resolve) => setTimeout(resolve, 200)),
+      () => {
+        throw new Error('rate limited');
+      },
+      () => ({ title: 'Otters' }),
+    ];
+
+    const writer = guard({
+      output: Output,
+      maxAttempts: 4,
+      attemptTimeoutMs: 20,
+      retryOnError: () => true,
+    })(async (state: any) => {
+      followUps.push(retry.followUp([{ role: 'user', content: state.prompt }]));
+      if (retry.attempt <= failures.length) return failures[retry.attempt - 1]();
+      return { title: 'Otters', score: 1 };
+    });
+
+    expect(await writer({ prompt: 'otters' })).toEqual({ title: 'Otters', score: 1 });
+    expect(followUps.slice(1)).toEqual([
+      [{ role: 'user', content: expect.stringContaining('(timeout)') }],
+      [{ role: 'user', content: expect.stringContaining('(error)') }],
+      [{ role: 'user', content: expect.stringContaining('(validation)') }],
+    ]);
+  });
+
+  it('should return nothing on the first attempt', () => {
+    expect(retry.followUp([{ role: 'user', content: 'hi' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  guard,
+  pipeline,
+  checkHandoff,
+  ContractMismatchError,
+  HandoffViolation,
+} from '../src/index';
+
+const Plan = z.object({ topic: z.string(), steps: z.array(z.string()) });
+const Research = z.object({ topic: z.string(), notes: z.array(z.string()) });
+const Draft = z.object({ draft: z.string() });
+
+const planner = guard({ output: Plan, nodeName: 'planner' })(async (input: any) => ({
+  topic: input.prompt,
+  steps: ['search'],
+}));
+
+const researcher = guard({ input: Plan, output: Research, nodeName: 'researcher' })(
+  async (plan: any) => ({ topic: plan.topic, notes: plan.steps.map((step: string) => `did ${step}`) }),
+);
+
+const writer = guard({ input: Research, output: Draft, nodeName: 'writer' })(
+  async (research: any) => ({ draft: `${research.topic}: ${research.notes.join(', ')}` }),
+);
+
+describe('pipeline', () => {
+  it('should expose the contract on guarded functions', () => {
+    expect(researcher.contract).toEqual({ nodeName: 'researcher', input: Plan, output: Research });
+  });
+
+  it('should run nodes in order', async () => {
+    const run = pipeline([planner, researcher, writer]);
+    expect(await run({ prompt: 'otters' })).toEqual({ draft: 'otters: did search' });
+    expect(run.mismatches).toEqual([]);
+  });
+
+  it('should reject incompatible contracts at definition time', () => {
+    try {
+      pipeline([planner, writer]);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ContractMismatchError);
+      expect((e as ContractMismatchError).mismatches).toEqual([
+        { from: 'planner', to: 'writer', field: 'notes', reason: 'required but not produced' },
+      ]);
+    }
+  });
+
+  it('should expose mismatches without throwing when not strict', () => {
+    const run = pipeline([planner, writer], { strict: false });
+    expect(run.mismatches).toHaveLength(1);
+    expect(checkHandoff(planner, researcher)).toEqual([]);
+  });
+
+  it('should report the failing edge when a runtime handoff fails', async () => {
+    const loosePlanner = guard({ nodeName: 'loosePlanner' })(async (input: any) => ({
+      topic: input.prompt,
+      steps: 'not a list',
+    }));
+    const run = pipeline([loosePlanner, researcher, writer]);
+
+    try {
+      await run({ prompt: 'otters' });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(HandoffViolation);
+      const violation = e as HandoffViolation;
+      expect(violation.nodeName).toBe('researcher');
+      expect(violation.context.contractType).toBe('input');
+      expect(violation.edge).toEqual({ from: 'loosePlanner', to: 'researcher', field: 'steps' });
+      expect(violation.toDict().edge).toEqual(violation.edge);
+    }
+  });
+
+  it("should let the consumer's guard handle a failing handoff", async () => {
+    const loosePlanner = guard({ nodeName: 'loosePlanner' })(async (input: any) => ({
+      topic: input.prompt,
+      steps: 'not a list',
+    }));
+    const violations: HandoffViolation[] = [];
+    const lenientResearcher = guard({
+      input: Plan,
+      output: Research,
+      nodeName: 'researcher',
+      onFail: 'returnInput',
+      hooks: { onViolation: ({ violation }) => violations.push(violation) },
+    })(async (plan: any) => ({ topic: plan.topic, notes: [] }));
+
+    const run = pipeline([loosePlanner, lenientResearcher]);
+
+    expect(await run({ prompt: 'otters' })).toEqual({ topic: 'otters', steps: 'not a list' });
+    expect(violations).toHaveLength(1);
+    expect(violations[0].edge).toEqual({ from: 'loosePlanner', to: 'researcher', field: 'steps' });
+  });
+
+  it('should only attach the edge to the consumer, not guards it calls', async () => {
+    const inner = guard({ input: z.object({ id: z.number() }), nodeName: 'inner' })(
+      async (input: any) => input,
+    );
+    const consumer = guard({ input: Plan, nodeName: 'consumer' })(async (plan: any) =>
+      inner({ id: plan.topic }),
+    );
+    const run = pipeline([planner, consumer], { strict: false });
+
+    await expect(run({ prompt: 'otters' })).rejects.toMatchObject({
+      nodeName: 'inner',
+      edge: undefined,
+    });
+  });
+
+  it('should parse handoffs with the consumer when it uses parsed input', async () => {
+    const trimmed = guard({
+      input: z.object({ topic: z.string().trim() }),
+      nodeName: 'trimmed',
+      useParsed: true,
+    })(async (input: any) => input.topic);
+
+    const run = pipeline([
+      guard({ nodeName: 'padded' })(async () => ({ topic: '  otters  ' })),
+      trimmed,
+    ]);
+
+    expect(await run(undefined)).toBe('otters');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { guard, parseJson, repairJson, type AttemptRecord } from '../src/index';
+
+function repaired(text: string) {
+  const result = repairJson(text);
+  return { value: JSON.parse(result.text), repairs: result.repairs };
+}
+
+describe('repairJson', () => {
+  it('should leave valid JSON untouched', () => {
+    expect(repairJson('{"a": [1, 2]}')).toEqual({ text: '{"a": [1, 2]}', repairs: [] });
+  });
+
+  it('should drop trailing commas', () => {
+    expect(repaired('{"a": [1, 2,], "b": 3,}')).toEqual({
+      value: { a: [1, 2], b: 3 },
+      repairs: ['trailingCommas'],
+    });
+  });
+
+  it('should convert single-quoted strings', () => {
+    expect(repaired(`{'a': 'it\\'s "quoted"'}`)).toEqual({
+      value: { a: `it's "quoted"` },
+      repairs: ['singleQuotes'],
+    });
+  });
+
+  it('should quote unquoted keys but not bare values', () => {
+    expect(repaired('{name: "x", ok: true, nested: {n: null}}')).toEqual({
+      value: { name: 'x', ok: true, nested: { n: null } },
+      repairs: ['unquotedKeys'],
+    });
+  });
+
+  it('should strip comments outside strings', () => {
+    expect(repaired('{\n  // the url\n  "url": "http://x" /* done */\n}')).toEqual({
+      value: { url: 'http://x' },
+      repairs: ['comments'],
+    });
+  });
+
+  it('should close truncated output', () => {
+    expect(repaired('{"a": [1, 2], "b": {"c": "trunc')).toEqual({
+      value: { a: [1, 2], b: { c: 'trunc' } },
+      repairs: ['closeBrackets'],
+    });
+    expect(repaired('{"a": 1, "b":').value).toEqual({ a: 1, b: null });
+  });
+
+  it('should keep the last field of cut-off output with unquoted or single-quoted keys', () => {
+    expect(repaired('{a: [1], b: 2').value).toEqual({ a: [1], b: 2 });
+    expect(repaired("{'a': [1], 'b': 2").value).toEqual({ a: [1], b: 2 });
+    expect(repaired("{'a': {'b': 1}, 'c': 'x").value).toEqual({ a: { b: 1 }, c: 'x' });
+    expect(parseJson('{a: [1], b: 2', { repair: true })).toEqual({ a: [1], b: 2 });
+  });
+
+  it('should strip prose around the JSON', () => {
+    expect(repaired('Sure! Here it is: {"a": 1} Let me know.')).toEqual({
+      value: { a: 1 },
+      repairs: ['surroundingProse'],
+    });
+  });
+
+  it('should only apply enabled repairs', () => {
+    const result = repairJson("{a: 1,}", ['trailingCommas']);
+    expect(result).toEqual({ text: '{a: 1}', repairs: ['trailingCommas'] });
+  });
+});
+
+describe('reporting applied repairs', () => {
+  it('should call onRepair when a repair makes the text parse', () => {
+    const applied: string[][] = [];
+    const onRepair = (repairs: string[]) => applied.push(repairs);
+
+    expect(parseJson('{"a": 1,}', { repair: true, onRepair })).toEqual({ a: 1 });
+    expect(parseJson('{"a": 1}', { repair: true, onRepair })).toEqual({ a: 1 });
+    expect(applied).toEqual([['trailingCommas']]);
+  });
+
+  it("should note repairs on the attempt's record", async () => {
+    const records: AttemptRecord[] = [];
+    const replies = ["{title: 'x'}", '{"title": "y", "score": 1,}'];
+
+    const writer = guard({
+      output: z.object({ title: z.string(), score: z.number() }),
+      maxAttempts: 2,
+      hooks: { onAttemptEnd: ({ record }) => records.push(record) },
+    })(async (state: any) => parseJson(replies[records.length], { repair: true }));
+
+    expect(await writer({})).toEqual({ title: 'y', score: 1 });
+    expect(records.map((record) => record.repairs)).toEqual([
+      ['singleQuotes', 'unquotedKeys'],
+      ['trailingCommas'],
+    ]);
+    expect(records[1].diagnostic).toBeNull();
+  });
+});
@@ -1,6 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { z } from 'zod';
-import { guard, retry, HandoffViolation, ParseError } from '../src/index';
+import { guard, guardSync, retry, parseJson, HandoffViolation, ParseError } from '../src/index';
 
 const SimpleOutput = z.object({
   result: z.string(),
@@ -198,6 +198,51 @@ describe('violation history', () => {
   });
 });
 
+describe('multiple issues', () => {
+  it('should record every output issue on the diagnostic', async () => {
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 2,
+    })(async (state: any) => {
+      return { score: 'high' } as any;
+    });
+
+    try {
+      await myFunc({ x: 1 });
+      expect.unreachable();
+    } catch (e) {
+      const exc = e as HandoffViolation;
+      const diag = exc.history[0].diagnostic!;
+      expect(diag.issues!.map((issue) => issue.field)).toEqual([
+        'result',
+        'score',
+      ]);
+      expect(diag.issues![1].received).toBe('"high"');
+      expect(exc.issues).toHaveLength(2);
+    }
+  });
+
+  it('should render every issue in feedback', async () => {
+    let feedbackText: string | null = null;
+
+    const myFunc = guard<[{ x: number }], { result: string; score: number }>({
+      output: SimpleOutput,
+      maxAttempts: 2,
+    })(async (state: any) => {
+      if (retry.isRetry) {
+        feedbackText = retry.feedback();
+        return { result: 'ok', score: 1 };
+      }
+      return {} as any;
+    });
+
+    await myFunc({ x: 1 });
+    expect(feedbackText).toContain('Issues (2):');
+    expect(feedbackText).toContain('- result:');
+    expect(feedbackText).toContain('- score:');
+  });
+});
+
 describe('parse retry', () => {
   it('should retry on ParseError', async () => {
     let callCount = 0;
@@ -249,6 +294,23 @@ describe('parse retry', () => {
     }
   });
 
+  it('should record attempted repairs on the parse diagnostic', async () => {
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 2,
+    })(async (state: any) => {
+      throw new ParseError('bad json', '{a: 1', { repairs: ['unquotedKeys'] });
+    });
+
+    try {
+      await myFunc({ x: 1 });
+      expect.unreachable();
+    } catch (e) {
+      const exc = e as HandoffViolation;
+      expect(exc.history[0].diagnostic!.repairs).toEqual(['unquotedKeys']);
+    }
+  });
+
   it('should not retry non-parse errors', async () => {
     let callCount = 0;
 
@@ -334,6 +396,289 @@ describe('parse retry', () => {
   });
 });
 
+describe('retry on error', () => {
+  class RateLimitError extends Error {
+    constructor() {
+      super('429 Too Many Requests');
+      this.name = 'RateLimitError';
+    }
+  }
+
+  it('should retry errors accepted by retryOnError', async () => {
+    let callCount = 0;
+    let feedbackText: string | null = null;
+
+    const myFunc = guard<[{ x: number }], { result: string; score: number }>({
+      output: SimpleOutput,
+      maxAttempts: 3,
+      retryOnError: (error) => error instanceof RateLimitError,
+    })(async (state: any) => {
+      callCount++;
+      if (callCount === 1) {
+        throw new RateLimitError();
+      }
+      feedbackText = retry.feedback();
+      return { result: 'ok', score: 1 };
+    });
+
+    const result = await myFunc({ x: 1 });
+    expect(result.score).toBe(1);
+    expect(callCount).toBe(2);
+    expect(feedbackText).toContain('(error)');
+    expect(feedbackText).toContain('429 Too Many Requests');
+  });
+
+  it('should rethrow errors rejected by retryOnError', async () => {
+    let callCount = 0;
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 3,
+      retryOnError: (error) => error instanceof RateLimitError,
+    })(async (state: any) => {
+      callCount++;
+      throw new Error('fatal');
+    });
+
+    await expect(myFunc({ x: 1 })).rejects.toThrow('fatal');
+    expect(callCount).toBe(1);
+  });
+
+  it('should raise HandoffViolation with error history after exhaustion', async () => {
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 2,
+      retryOnError: () => true,
+    })(async (state: any) => {
+      throw new RateLimitError();
+    });
+
+    try {
+      await myFunc({ x: 1 });
+      expect.unreachable();
+    } catch (e) {
+      const exc = e as HandoffViolation;
+      expect(exc).toBeInstanceOf(HandoffViolation);
+      expect(exc.history.map((record) => record.diagnostic?.type)).toEqual([
+        'error',
+        'error',
+      ]);
+      expect(exc.context.receivedType).toBe('RateLimitError');
+    }
+  });
+
+  it('should keep the last thrown error as the violation cause', async () => {
+    const errors: Error[] = [];
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 2,
+      retryOnError: () => true,
+      onFail: [{ retryWith: async () => ({ result: 'bad' }) }],
+    })(async (state: any) => {
+      errors.push(new RateLimitError());
+      throw errors[errors.length - 1];
+    });
+
+    const violation = (await myFunc({ x: 1 }).catch((e) => e)) as HandoffViolation;
+    expect(violation).toBeInstanceOf(HandoffViolation);
+    expect(violation.cause).toBe(errors[1]);
+    expect(violation.toDict()).not.toHaveProperty('cause');
+
+    const validation = guard({ output: SimpleOutput })(async (state: any) => ({ result: 'x' }));
+    const withoutCause = await validation({ x: 1 }).catch((e) => e);
+    expect(withoutCause).not.toHaveProperty('cause');
+  });
+
+  it('should not retry violations raised for the final validation failure', async () => {
+    let classified = 0;
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 1,
+      retryOnError: () => {
+        classified++;
+        return true;
+      },
+    })(async (state: any) => {
+      return { result: 'bad' } as any;
+    });
+
+    await expect(myFunc({ x: 1 })).rejects.toThrow(HandoffViolation);
+    expect(classified).toBe(0);
+  });
+});
+
+describe('custom validators', () => {
+  const Draft = z.object({
+    draft: z.string(),
+    wordCount: z.number(),
+  });
+
+  const wordCountMatches = (output: any) =>
+    output.draft.split(/\s+/).length === output.wordCount
+      ? null
+      : {
+          field: 'wordCount',
+          message: 'wordCount must match the number of words in draft',
+          received: String(output.wordCount),
+        };
+
+  it('should retry when a validator reports an issue', async () => {
+    let feedbackText: string | null = null;
+
+    const myFunc = guard<[{ x: number }], { draft: string; wordCount: number }>({
+      output: Draft,
+      maxAttempts: 2,
+      validate: [wordCountMatches],
+    })(async (state: any) => {
+      if (retry.isRetry) {
+        feedbackText = retry.feedback();
+        return { draft: 'one two three', wordCount: 3 };
+      }
+      return { draft: 'one two three', wordCount: 7 };
+    });
+
+    const result = await myFunc({ x: 1 });
+    expect(result.wordCount).toBe(3);
+    expect(feedbackText).toContain('Field: wordCount');
+    expect(feedbackText).toContain("Fix 'wordCount'");
+  });
+
+  it('should skip validators when the schema already failed', async () => {
+    let validatorCalls = 0;
+
+    const myFunc = guard({
+      output: Draft,
+      validate: [
+        () => {
+          validatorCalls++;
+          return null;
+        },
+      ],
+    })(async (state: any) => {
+      return { draft: 'x' } as any;
+    });
+
+    await expect(myFunc({ x: 1 })).rejects.toThrow(HandoffViolation);
+    expect(validatorCalls).toBe(0);
+  });
+
+  it('should collect issues from async validators and pass input', async () => {
+    let seenInput: unknown;
+
+    const myFunc = guard({
+      output: Draft,
+      validate: [
+        wordCountMatches,
+        async (output: any, { input }) => {
+          seenInput = input;
+          return [
+            { field: 'draft', message: 'draft must cite a source', code: 'citation' },
+          ];
+        },
+      ],
+    })(async (state: any) => {
+      return { draft: 'one two', wordCount: 5 };
+    });
+
+    try {
+      await myFunc({ sources: [] });
+      expect.unreachable();
+    } catch (e) {
+      const exc = e as HandoffViolation;
+      expect(seenInput).toEqual({ sources: [] });
+      expect(exc.fieldPath).toBe('wordCount');
+      expect(exc.issues.map((issue) => issue.code)).toEqual(['custom', 'citation']);
+      expect(exc.history[0].diagnostic!.type).toBe('validation');
+    }
+  });
+});
+
+describe('timeouts', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function waitForAbort(signal: AbortSignal): Promise<never> {
+    return new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason));
+    });
+  }
+
+  it('should expose a never-aborted signal outside guarded calls', () => {
+    expect(retry.signal.aborted).toBe(false);
+  });
+
+  it('should abort a hung attempt and retry', async () => {
+    vi.useFakeTimers();
+    const signals: AbortSignal[] = [];
+
+    const myFunc = guard<[{ x: number }], { result: string; score: number }>({
+      output: SimpleOutput,
+      maxAttempts: 2,
+      attemptTimeoutMs: 100,
+    })(async (state: any) => {
+      signals.push(retry.signal);
+      if (!retry.isRetry) {
+        return waitForAbort(retry.signal);
+      }
+      return { result: 'ok', score: 1 };
+    });
+
+    const pending = myFunc({ x: 1 });
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(pending).resolves.toEqual({ result: 'ok', score: 1 });
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('should raise HandoffViolation with timeout history after exhaustion', async () => {
+    vi.useFakeTimers();
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 2,
+      attemptTimeoutMs: 50,
+    })(async (state: any) => {
+      return waitForAbort(retry.signal);
+    });
+
+    const pending = myFunc({ x: 1 }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(100);
+    const exc = (await pending) as HandoffViolation;
+    expect(exc).toBeInstanceOf(HandoffViolation);
+    expect(exc.history.map((record) => record.diagnostic?.type)).toEqual([
+      'timeout',
+      'timeout',
+    ]);
+    expect(exc.history[0].diagnostic!.message).toContain('50ms');
+  });
+
+  it('should stop retrying once the deadline is exceeded', async () => {
+    vi.useFakeTimers();
+    let callCount = 0;
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 5,
+      attemptTimeoutMs: 100,
+      deadlineMs: 150,
+    })(async (state: any) => {
+      callCount++;
+      return waitForAbort(retry.signal);
+    });
+
+    const pending = myFunc({ x: 1 }).catch((e) => e);
+    await vi.advanceTimersByTimeAsync(200);
+    const exc = (await pending) as HandoffViolation;
+    expect(exc).toBeInstanceOf(HandoffViolation);
+    expect(callCount).toBe(2);
+    expect(exc.context.expected).toContain('deadline');
+    expect(exc.history[1].diagnostic!.message).toContain('Deadline exceeded');
+  });
+});
+
 describe('on_fail after retry', () => {
   it('should return null after retry exhaustion with return_none', async () => {
     const myFunc = guard({
@@ -349,6 +694,168 @@ describe('on_fail after retry', () => {
   });
 });
 
+describe('escalating implementations', () => {
+  it('should run one implementation per attempt, repeating the last', async () => {
+    const cheap = async (state: any) => ({ result: 'cheap' }) as any;
+    const better = async (state: any) => ({ result: 'better' }) as any;
+    const best = async (state: any) => ({ result: 'best', score: 3 });
+
+    const myFunc = guard({ output: SimpleOutput, maxAttempts: 4 })([cheap, better, best]);
+
+    expect(await myFunc({})).toEqual({ result: 'best', score: 3 });
+
+    const failing = guard({ output: SimpleOutput, maxAttempts: 3 })([cheap, better]);
+    try {
+      await failing({});
+      expect.unreachable();
+    } catch (e) {
+      const exc = e as HandoffViolation;
+      expect(exc.history.map((record) => record.implementation)).toEqual([
+        'cheap',
+        'better',
+        'better',
+      ]);
+    }
+  });
+
+  it('should pick implementations with a selector', async () => {
+    const ran: string[] = [];
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 3,
+      selectImplementation: (state) => (state.isFinalAttempt ? 1 : 0),
+    })([
+      async () => {
+        ran.push('small');
+        return { result: 'small' } as any;
+      },
+      async () => {
+        ran.push('large');
+        return { result: 'large', score: 1 };
+      },
+    ]);
+
+    expect(await myFunc({})).toEqual({ result: 'large', score: 1 });
+    expect(ran).toEqual(['small', 'small', 'large']);
+  });
+
+  it('should not note the implementation when there is no choice', async () => {
+    const records: unknown[] = [];
+    const myFunc = guard({
+      output: SimpleOutput,
+      hooks: { onAttemptEnd: ({ record }) => records.push(record.implementation) },
+    })([async (state: any) => ({ result: 'ok', score: 1 })]);
+
+    await myFunc({});
+    expect(records).toEqual([undefined]);
+  });
+});
+
+describe('fallback chain', () => {
+  it('should retry with another implementation and record the step', async () => {
+    const seen: (string | null)[] = [];
+    const myFunc = guard({
+      output: SimpleOutput,
+      maxAttempts: 2,
+      onFail: [
+        {
+          retryWith: async (state: any) => {
+            seen.push(retry.feedback());
+            return { result: `fallback ${state.x}`, score: 1 };
+          },
+        },
+      ],
+    })(async (state: any) => ({ result: 'bad' }) as any);
+
+    expect(await myFunc({ x: 1 })).toEqual({ result: 'fallback 1', score: 1 });
+    expect(seen[0]).toContain('Field: score');
+  });
+
+  it('should run the chain for errors that would otherwise be rethrown', async () => {
+    const fallback = { retryWith: async (state: any) => ({ result: 'large', score: 1 }) };
+
+    const unparseable = guard({ output: SimpleOutput, onFail: [fallback] })(async (state: any) =>
+      parseJson('Sorry, no JSON today'),
+    );
+    const notRetried = guard({
+      output: SimpleOutput,
+      maxAttempts: 2,
+      retryOn: ['validation'],
+      onFail: [fallback],
+    })(async (state: any) => parseJson('{"result": '));
+    const rateLimited = guard({
+      output: SimpleOutput,
+      retryOnError: () => true,
+      onFail: [fallback],
+    })(async (state: any) => {
+      throw new Error('429');
+    });
+
+    for (const myFunc of [unparseable, notRetried, rateLimited]) {
+      expect(await myFunc({})).toEqual({ result: 'large', score: 1 });
+    }
+    await expect(
+      guard({ output: SimpleOutput, onFail: ['raise'] })(async (state: any) => parseJson('nope'))({}),
+    ).rejects.toThrow(HandoffViolation);
+  });
+
+  it('should validate the default and fall through to raise', async () => {
+    const myFunc = guard({
+      output: SimpleOutput,
+      onFail: [{ default: { result: 'default' } }, 'raise'],
+    })(async (state: any) => ({ result: 'bad' }) as any);
+
+    try {
+      await myFunc({});
+      expect.unreachable();
+    } catch (e) {
+      const exc = e as HandoffViolation;
+      expect(exc.totalAttempts).toBe(2);
+      expect(exc.history[1].fallback).toBe('default');
+      expect(exc.history[1].diagnostic!.field).toBe('score');
+    }
+  });
+
+  it('should try each step in order', async () => {
+    const myFunc = guard({
+      output: SimpleOutput,
+      onFail: [
+        { retryWith: async () => { throw new Error('model down'); } },
+        { repair: (output: any) => ({ ...output, score: 0 }) },
+        { default: { result: 'default', score: 0 } },
+      ],
+    })(async (state: any) => ({ result: 'partial' }) as any);
+
+    const calls: unknown[] = [];
+    const withHistory = guard({
+      output: SimpleOutput,
+      onFail: [
+        { retryWith: async () => { throw new Error('model down'); } },
+        (violation) => {
+          calls.push(violation.history.map((record) => record.fallback ?? 'attempt'));
+          return null;
+        },
+      ],
+    })(async (state: any) => ({ result: 'partial' }) as any);
+
+    expect(await myFunc({})).toEqual({ result: 'partial', score: 0 });
+    expect(await withHistory({})).toBeNull();
+    expect(calls).toEqual([['attempt', 'retryWith']]);
+  });
+
+  it('should repair the latest invalid output in guardSync', () => {
+    const transform = guardSync({
+      output: SimpleOutput,
+      onFail: [
+        { retryWith: (state: any) => ({ result: 'second' }) },
+        { repair: (output: any) => ({ ...output, score: 2 }) },
+      ],
+    })((state: any) => ({ result: 'first' }));
+
+    expect(transform({})).toEqual({ result: 'second', score: 2 });
+  });
+});
+
 describe('input validation no retry', () => {
   it('should not retry on input validation failure', async () => {
     const StrictInput = z.object({
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  guard,
+  retry,
+  validateStream,
+  StreamValidationError,
+  ParseError,
+  HandoffViolation,
+} from '../src/index';
+
+const Article = z.object({
+  title: z.string().min(3),
+  wordCount: z.number(),
+  tags: z.array(z.string()),
+  meta: z.object({ lang: z.string() }).optional(),
+});
+
+async function* chunked(text: string, size: number, consumed?: string[]) {
+  for (let i = 0; i < text.length; i += size) {
+    const chunk = text.slice(i, i + size);
+    consumed?.push(chunk);
+    yield chunk;
+  }
+}
+
+describe('validateStream', () => {
+  it('should validate a complete stream and report fields as they finish', async () => {
+    const text = '```json\n{"title": "Hello \\"world\\"", "wordCount": 12, "tags": ["a", "b,c"], "meta": {"lang": "en"}}\n```';
+    const fields: string[] = [];
+
+    const result = await validateStream(chunked(text, 5), Article, {
+      onField: (field) => fields.push(field),
+    });
+
+    expect(result).toEqual({
+      title: 'Hello "world"',
+      wordCount: 12,
+      tags: ['a', 'b,c'],
+      meta: { lang: 'en' },
+    });
+    expect(fields).toEqual(['title', 'wordCount', 'tags', 'meta']);
+  });
+
+  it('should abort early on an invalid completed field', async () => {
+    const text = `{"title": "ok title", "wordCount": "many", "tags": [${'"x", '.repeat(200)}"y"]}`;
+    const consumed: string[] = [];
+
+    try {
+      await validateStream(chunked(text, 8, consumed), Article);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(StreamValidationError);
+      const error = e as StreamValidationError;
+      expect(error.diagnostic.type).toBe('validation');
+      expect(error.diagnostic.field).toBe('wordCount');
+      expect(error.issues[0].received).toBe('"many"');
+      expect(error.partial).toEqual({ title: 'ok title', wordCount: 'many' });
+    }
+    expect(consumed.join('').length).toBeLessThan(text.length / 2);
+  });
+
+  it('should report missing fields once the stream ends', async () => {
+    await expect(
+      validateStream(chunked('{"title": "ok title", "wordCount": 1}', 4), Article),
+    ).rejects.toMatchObject({ issues: [{ field: 'tags' }] });
+  });
+
+  it('should throw ParseError for a malformed completed field', async () => {
+    await expect(
+      validateStream(chunked('{"title": "ok title", "wordCount": 1x2, "tags": []}', 6), Article),
+    ).rejects.toThrow(ParseError);
+  });
+
+  it('should ignore prose around the streamed object', async () => {
+    const text = 'Here you go: {"title": "ok title", "wordCount": 1, "tags": []} Hope that helps!';
+    expect(await validateStream(chunked(text, 7), Article)).toEqual({
+      title: 'ok title',
+      wordCount: 1,
+      tags: [],
+    });
+  });
+
+  it('should repair fields and the final value when asked', async () => {
+    const text = "{\"title\": 'ok title', \"wordCount\": 1, \"tags\": [\"a\",],}";
+    await expect(validateStream(chunked(text, 5), Article)).rejects.toThrow(ParseError);
+    expect(await validateStream(chunked(text, 5), Article, { repair: true })).toEqual({
+      title: 'ok title',
+      wordCount: 1,
+      tags: ['a'],
+    });
+  });
+
+  it('should return the parsed value so guard can apply transforms', async () => {
+    const Counted = z.object({ words: z.string().transform((value) => value.split(' ')) });
+
+    const myFunc = guard({ output: Counted, useParsed: true })(async (state: any) =>
+      validateStream(chunked('{"words": "one two three"}', 4), Counted),
+    );
+
+    expect(await myFunc({})).toEqual({ words: ['one', 'two', 'three'] });
+  });
+
+  it('should be retried by guard as a validation failure', async () => {
+    const responses = [
+      '{"title": "no", "wordCount": 1, "tags": []}',
+      '{"title": "long enough", "wordCount": 1, "tags": []}',
+    ];
+    let feedbackText: string | null = null;
+
+    const myFunc = guard({
+      output: Article,
+      maxAttempts: 2,
+    })(async (state: any) => {
+      feedbackText = retry.feedback();
+      return validateStream(chunked(responses[retry.attempt - 1], 3), Article);
+    });
+
+    expect(await myFunc({})).toMatchObject({ title: 'long enough' });
+    expect(feedbackText).toContain('(validation)');
+    expect(feedbackText).toContain('Field: title');
+  });
+
+  it('should raise HandoffViolation after exhausting streamed attempts', async () => {
+    const myFunc = guard({
+      output: Article,
+      maxAttempts: 2,
+    })(async (state: any) => {
+      return validateStream(chunked('{"title": 5}', 3), Article);
+    });
+
+    await expect(myFunc({})).rejects.toThrow(HandoffViolation);
+  });
+});
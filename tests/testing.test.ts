@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { mockRetry, retry } from '../src/index';
+import { z } from 'zod';
+import {
+  guard,
+  mockRetry,
+  retry,
+  scriptedNode,
+  HandoffViolation,
+  type AttemptRecord,
+  type Diagnostic,
+} from '../src/index';
 
 describe('mockRetry', () => {
   it('should set retry context', async () => {
@@ -27,3 +36,113 @@ describe('mockRetry', () => {
     );
   });
 });
+
+describe('mockRetry with history', () => {
+  const parseFailure: Diagnostic = {
+    type: 'parse',
+    message: 'Unexpected token',
+    suggestion: 'Return valid JSON',
+  };
+  const missingScore: Diagnostic = {
+    type: 'validation',
+    message: 'Invalid input: expected number, received undefined',
+    field: 'score',
+    suggestion: "'score' should be number",
+  };
+
+  it('should derive lastError and format feedback like guard()', async () => {
+    await mockRetry({ history: [parseFailure, missingScore] }, async (state) => {
+      expect(state).toMatchObject({ attempt: 3, maxAttempts: 3, isFinalAttempt: true });
+      expect(retry.lastError).toBe(missingScore);
+      expect(retry.history.map((record) => record.attempt)).toEqual([1, 2]);
+      expect(retry.feedback()).toBe(
+        [
+          '[Retry] Previous attempt failed (validation):',
+          '  Message: Invalid input: expected number, received undefined',
+          '  Field: score',
+          "  Suggestion: 'score' should be number",
+        ].join('\n'),
+      );
+    });
+  });
+
+  it('should match the feedback of a real guarded call', async () => {
+    const Output = z.object({ title: z.string(), score: z.number() });
+    const node = scriptedNode([{ title: 'x' }, { title: 'x', score: 1 }]);
+    const records: AttemptRecord[] = [];
+    const writer = guard({
+      output: Output,
+      maxAttempts: 2,
+      feedback: 'terse',
+      hooks: { onRetry: ({ record }) => records.push(record) },
+    })(node);
+    await writer({});
+
+    const feedback = await mockRetry({ history: records, feedback: 'terse' }, async () =>
+      retry.feedback(),
+    );
+    expect(feedback).toBe(node.feedbackAt(2));
+  });
+
+  it('should walk through attempts in sequence mode', async () => {
+    const seen = await mockRetry(
+      { history: [parseFailure, missingScore], sequence: true },
+      async (state) => [state.attempt, state.history.length, retry.lastError?.type ?? null],
+    );
+
+    expect(seen).toEqual([
+      [1, 0, null],
+      [2, 1, 'parse'],
+      [3, 2, 'validation'],
+    ]);
+  });
+
+  it('should record lastError in the history', async () => {
+    await mockRetry({ attempt: 2, feedbackText: 'Fix it' }, async () => {
+      expect(retry.history).toHaveLength(1);
+      expect(retry.history[0].diagnostic?.message).toBe('Fix it');
+    });
+  });
+});
+
+describe('scriptedNode', () => {
+  const Output = z.object({ title: z.string(), score: z.number() });
+
+  it('should play the script and record feedback per attempt', async () => {
+    const node = scriptedNode([
+      'not json',
+      { title: 'Otters' },
+      new Error('rate limited'),
+      '{"title": "Otters", "score": 1}',
+    ]);
+    const writer = guard({ output: Output, maxAttempts: 4, retryOnError: () => true })(node);
+
+    expect(await writer({ prompt: 'otters' })).toEqual({ title: 'Otters', score: 1 });
+    node.assertAttempts(4);
+    node.assertFeedback(1, null);
+    node.assertFeedback(2, '(parse)');
+    node.assertFeedback(3, /Field: score/);
+    node.assertFeedback(4, 'rate limited');
+    expect(node.calls[0].args[0]).toEqual({ prompt: 'otters' });
+  });
+
+  it('should report failed assertions', async () => {
+    const node = scriptedNode([{ title: 'x' }, { title: 'y' }]);
+    const writer = guard({ output: Output, maxAttempts: 2 })(node);
+
+    await expect(writer({})).rejects.toThrow(HandoffViolation);
+    expect(() => node.assertAttempts(3)).toThrow('Expected 3 attempt(s), but 2 ran');
+    expect(() => node.assertFeedback(2, 'title')).toThrow('Expected feedback on attempt 2');
+    expect(() => node.assertFeedback(3, null)).toThrow('Attempt 3 did not run');
+  });
+
+  it('should track the latest guarded call and fail when the script runs out', async () => {
+    const node = scriptedNode(['{"title": "a", "score": 1}', '{"title": "b", "score": 2}']);
+    const writer = guard({ output: Output, maxAttempts: 2 })(node);
+
+    await writer({});
+    await writer({});
+    node.assertAttempts(1);
+    await expect(writer({})).rejects.toThrow('Script has no response for call 3');
+  });
+});
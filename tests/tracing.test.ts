@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  guard,
+  ParseError,
+  HandoffViolation,
+  SpanStatusCode,
+  type GuardSpan,
+  type GuardTracer,
+  type SpanAttributeValue,
+} from '../src/index';
+
+const SimpleOutput = z.object({
+  result: z.string(),
+  score: z.number(),
+});
+
+interface FinishedSpan {
+  name: string;
+  attributes: Record<string, SpanAttributeValue>;
+  status: { code: number; message?: string } | null;
+  exceptions: Error[];
+  parent: string | undefined;
+}
+
+function inMemoryTracer(): GuardTracer & { spans: FinishedSpan[] } {
+  const spans: FinishedSpan[] = [];
+  return {
+    spans,
+    startSpan(name, options, context) {
+      const span: FinishedSpan & GuardSpan = {
+        name,
+        attributes: { ...options?.attributes },
+        status: null,
+        exceptions: [],
+        parent: (context as { parent?: string } | undefined)?.parent,
+        setAttribute(key, value) {
+          span.attributes[key] = value;
+        },
+        setStatus(status) {
+          span.status = status;
+        },
+        recordException(exception) {
+          span.exceptions.push(exception);
+        },
+        end() {
+          spans.push(span);
+        },
+      };
+      return span;
+    },
+  };
+}
+
+const withParent = (span: GuardSpan) => ({ parent: (span as unknown as FinishedSpan).name });
+
+describe('tracing', () => {
+  it('should create a call span with a child span per attempt', async () => {
+    const tracer = inMemoryTracer();
+    let callCount = 0;
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      nodeName: 'writer',
+      maxAttempts: 3,
+      tracing: { tracer, contextWithSpan: withParent },
+    })(async (state: any) => {
+      callCount++;
+      return callCount === 1 ? { result: 'ok' } : { result: 'ok', score: 1 };
+    });
+
+    await myFunc({ x: 1 });
+
+    expect(tracer.spans.map((span) => span.name)).toEqual([
+      'guard:writer:attempt',
+      'guard:writer:attempt',
+      'guard:writer',
+    ]);
+    const [first, second, call] = tracer.spans;
+    expect(first.parent).toBe('guard:writer');
+    expect(first.attributes).toMatchObject({
+      'handoff_guard.node': 'writer',
+      'handoff_guard.attempt': 1,
+      'handoff_guard.outcome': 'retry',
+      'handoff_guard.diagnostic.type': 'validation',
+      'handoff_guard.diagnostic.field': 'score',
+    });
+    expect(first.status?.code).toBe(SpanStatusCode.ERROR);
+    expect(second.attributes['handoff_guard.outcome']).toBe('success');
+    expect(second.status?.code).toBe(SpanStatusCode.OK);
+    expect(call.attributes).toMatchObject({
+      'handoff_guard.outcome': 'success',
+      'handoff_guard.total_attempts': 2,
+    });
+  });
+
+  it('should end the call span with the violation', async () => {
+    const tracer = inMemoryTracer();
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      nodeName: 'writer',
+      maxAttempts: 2,
+      tracing: { tracer },
+    })(async (state: any) => {
+      return { result: 'bad' } as any;
+    });
+
+    await expect(myFunc({ x: 1 })).rejects.toThrow(HandoffViolation);
+    const call = tracer.spans.at(-1)!;
+    expect(tracer.spans[1].attributes['handoff_guard.outcome']).toBe('failed');
+    expect(call.attributes['handoff_guard.outcome']).toBe('violation');
+    expect(call.status?.code).toBe(SpanStatusCode.ERROR);
+    expect(call.exceptions[0]).toBeInstanceOf(HandoffViolation);
+  });
+
+  it('should trace retryWith fallbacks and end the call as a success', async () => {
+    const tracer = inMemoryTracer();
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      nodeName: 'writer',
+      tracing: { tracer },
+      onFail: [{ retryWith: async (state: any) => ({ result: 'ok', score: 1 }) }],
+    })(async (state: any) => {
+      return { result: 'bad' } as any;
+    });
+
+    await myFunc({ x: 1 });
+    expect(
+      tracer.spans.map((span) => [span.name, span.attributes['handoff_guard.outcome']]),
+    ).toEqual([
+      ['guard:writer:attempt', 'failed'],
+      ['guard:writer:attempt', 'success'],
+      ['guard:writer', 'success'],
+    ]);
+    expect(tracer.spans[1].attributes['handoff_guard.attempt']).toBe(2);
+    expect(tracer.spans[2].attributes['handoff_guard.total_attempts']).toBe(2);
+    expect(tracer.spans[2].status?.code).toBe(SpanStatusCode.OK);
+  });
+
+  it('should end spans when an error propagates', async () => {
+    const tracer = inMemoryTracer();
+
+    const myFunc = guard({
+      output: SimpleOutput,
+      nodeName: 'parser',
+      tracing: { tracer },
+    })(async (state: any) => {
+      throw new ParseError('bad json', 'nope');
+    });
+
+    await expect(myFunc({ x: 1 })).rejects.toThrow(ParseError);
+    expect(tracer.spans.map((span) => span.attributes['handoff_guard.outcome'])).toEqual([
+      'failed',
+      'error',
+    ]);
+    expect(tracer.spans[0].attributes['handoff_guard.diagnostic.type']).toBe('parse');
+  });
+});
@@ -31,4 +31,61 @@ describe('parseJson', () => {
     const result = parseJson(text);
     expect(result).toEqual({ key: 'value' });
   });
+
+  it('should not repair by default', () => {
+    expect(() => parseJson('{"a": 1,}')).toThrow(ParseError);
+  });
+
+  it('should repair common mistakes when enabled', () => {
+    const text = "```json\n{name: 'x', tags: ['a',], // note\n```";
+    expect(parseJson(text, { repair: true })).toEqual({ name: 'x', tags: ['a'] });
+  });
+
+  it('should report attempted repairs on ParseError', () => {
+    try {
+      parseJson('{"a": 1,, "b": 2,}', { repair: true });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ParseError);
+      expect((e as ParseError).repairs).toEqual(['trailingCommas']);
+    }
+  });
+
+  it('should extract JSON surrounded by prose', () => {
+    const text = 'Here is the result: {"a": 1} Let me know if you need more.';
+    expect(() => parseJson(text)).toThrow(ParseError);
+    expect(parseJson(text, { extract: 'first' })).toEqual({ a: 1 });
+  });
+
+  it('should pick the first, last or all extracted values', () => {
+    const text = 'Draft: {"v": 1}\nFinal: {"v": 2}';
+    expect(parseJson(text, { extract: 'first' })).toEqual({ v: 1 });
+    expect(parseJson(text, { extract: 'last' })).toEqual({ v: 2 });
+    expect(parseJson(text, { extract: 'all' })).toEqual([{ v: 1 }, { v: 2 }]);
+  });
+
+  it('should extract from a fenced block with a given language', () => {
+    const text = '```text\n{"wrong": true}\n```\n```json\n{"right": true}\n```';
+    expect(parseJson(text, { extract: 'first', fenceLanguage: 'json' })).toEqual({
+      right: true,
+    });
+  });
+
+  it('should report the offset of the candidate that failed', () => {
+    const text = 'Result: {"a": 1,}';
+    try {
+      parseJson(text, { extract: 'first' });
+      expect.unreachable();
+    } catch (e) {
+      expect((e as ParseError).offset).toBe(8);
+      expect((e as ParseError).rawOutput).toBe(text);
+    }
+    expect(parseJson(text, { extract: 'first', repair: true })).toEqual({ a: 1 });
+  });
+
+  it('should throw ParseError when nothing can be extracted', () => {
+    expect(() => parseJson('no json here', { extract: 'first' })).toThrow(
+      'No JSON object or array found in output',
+    );
+  });
 });
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  guard,
+  parseJson,
+  HandoffViolation,
+  ViolationDictSchema,
+  VIOLATION_WIRE_VERSION,
+} from '../src/index';
+
+const Output = z.object({ title: z.string(), score: z.number() });
+
+async function raiseViolation(): Promise<HandoffViolation> {
+  const replies = ["{title: 'x' oops}", '{"title": 1}', '{"title": "x"}'];
+  let attempt = 0;
+  const writer = guard({
+    output: Output,
+    maxAttempts: 4,
+    nodeName: 'writer',
+    onFail: [{ default: { title: 'default' } }],
+  })([
+    async () => parseJson(replies[attempt++], { repair: true }),
+    async function large() {
+      return parseJson(replies[attempt++]);
+    },
+  ]);
+
+  try {
+    await writer({});
+  } catch (e) {
+    return e as HandoffViolation;
+  }
+  throw new Error('Expected a violation');
+}
+
+describe('violation wire format', () => {
+  it('should round-trip through JSON with Date timestamps', async () => {
+    const violation = await raiseViolation();
+    const dict = JSON.parse(JSON.stringify(violation));
+
+    expect(dict.version).toBe(VIOLATION_WIRE_VERSION);
+    const restored = HandoffViolation.fromDict(dict);
+
+    expect(restored).toBeInstanceOf(HandoffViolation);
+    expect(restored.message).toBe(violation.message);
+    expect(restored.nodeName).toBe('writer');
+    expect(restored.totalAttempts).toBe(violation.totalAttempts);
+    expect(restored.issues).toEqual(violation.issues);
+    expect(restored.history).toEqual(violation.history);
+    expect(restored.history[0].timestamp).toBeInstanceOf(Date);
+    expect(restored.history[0].diagnostic?.repairs?.length).toBeGreaterThan(0);
+    expect(restored.history.map((record) => record.implementation ?? record.fallback)).toEqual([
+      '#0',
+      'large',
+      'large',
+      'large',
+      'default',
+    ]);
+    expect(restored.toDict()).toEqual(violation.toDict());
+  });
+
+  it('should keep the pipeline edge', () => {
+    const violation = new HandoffViolation({
+      context: {
+        nodeName: 'writer',
+        contractType: 'input',
+        fieldPath: 'notes',
+        expected: 'Invalid input',
+        received: '{}',
+        receivedType: 'object',
+        suggestion: 'Fix notes',
+        edge: { from: 'planner', to: 'writer', field: 'notes' },
+      },
+    });
+
+    const restored = HandoffViolation.fromDict(violation.toDict());
+    expect(restored.edge).toEqual({ from: 'planner', to: 'writer', field: 'notes' });
+    expect(restored.totalAttempts).toBe(1);
+  });
+
+  it('should read unversioned dicts and reject unknown versions', async () => {
+    const { version, ...legacy } = (await raiseViolation()).toDict();
+
+    expect(HandoffViolation.fromDict(legacy).nodeName).toBe('writer');
+    expect(() => HandoffViolation.fromDict({ ...legacy, version: 99 })).toThrow(
+      'Invalid HandoffViolation dict',
+    );
+    expect(() => HandoffViolation.fromDict({ nodeName: 'writer' })).toThrow(/context/);
+  });
+
+  it('should read dicts written by 0.2.0', () => {
+    const dict = {
+      nodeName: 'writer',
+      fieldPath: 'score',
+      context: {
+        nodeName: 'writer',
+        contractType: 'output',
+        fieldPath: 'score',
+        expected: 'Invalid input: expected number, received undefined',
+        received: '{"title":"x"}',
+        receivedType: 'object',
+        suggestion: "Add the required field 'score'",
+      },
+      totalAttempts: 1,
+      history: [
+        {
+          attempt: 1,
+          timestamp: '2025-01-01T00:00:00.000Z',
+          durationMs: 12,
+          diagnostic: { type: 'validation', message: 'Invalid input', field: 'score' },
+        },
+      ],
+    };
+
+    const restored = HandoffViolation.fromDict(dict);
+    expect(restored.fieldPath).toBe('score');
+    expect(restored.issues).toEqual([]);
+    expect(restored.history[0].delayMs).toBe(0);
+    expect(restored.history[0].timestamp).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+  });
+
+  it('should describe the format as JSON Schema', () => {
+    const schema = z.toJSONSchema(ViolationDictSchema, { io: 'input' }) as {
+      required: string[];
+    };
+    expect(schema.required).toContain('history');
+    expect(schema.required).not.toContain('version');
+  });
+});